@@ -0,0 +1,205 @@
+import * as vscode from 'vscode';
+import {CONFIG_SECTION} from './highlightStyle';
+import {LESSON_STATUS_BAR_PRIORITY} from './lessonManager';
+import {LectureNote} from './types';
+
+// Context key set to 'playing' or 'paused' while auto-play runs, used in the "when" clauses of its commands
+const AUTO_PLAY_CONTEXT_KEY = 'codeHighlight.autoPlay';
+const DEFAULT_DURATION_SECONDS = 10;
+
+/**
+ * Get how long auto-play shows a note: its own duration, or the default duration from the settings
+ */
+export function getNoteDurationSeconds(note: LectureNote): number {
+  if (note.durationSeconds !== undefined && note.durationSeconds > 0) {
+    return note.durationSeconds;
+  }
+  const configured = vscode.workspace
+    .getConfiguration(CONFIG_SECTION)
+    .get<number>('autoPlay.defaultDurationSeconds', DEFAULT_DURATION_SECONDS);
+  return configured > 0 ? configured : DEFAULT_DURATION_SECONDS;
+}
+
+/**
+ * Whether auto-play starts over at the first note after the last one
+ */
+export function shouldLoopAutoPlay(): boolean {
+  return vscode.workspace.getConfiguration(CONFIG_SECTION).get<boolean>('autoPlay.loop', true);
+}
+
+/**
+ * Countdown of auto-play to the next step of a review, shown in the status bar next to the lesson item.
+ * The review controller restarts it for every note it shows and advances when it elapses.
+ */
+export class AutoPlayCountdown implements vscode.Disposable {
+  private readonly _onDidElapse = new vscode.EventEmitter<void>();
+  readonly onDidElapse = this._onDidElapse.event;
+
+  private readonly statusBarItem = vscode.window.createStatusBarItem(
+    vscode.StatusBarAlignment.Right,
+    LESSON_STATUS_BAR_PRIORITY + 1
+  );
+  private active = false;
+  private paused = false;
+  private held = false; // Waiting for restart() without counting down, e.g. while the code of a note is typed
+  private remainingMs = 0; // Time left when the countdown was last paused or restarted
+  private deadline: number | undefined; // Date.now() when the countdown elapses, undefined while paused
+  private interval: NodeJS.Timeout | undefined;
+
+  /**
+   * Whether auto-play is on, playing or paused
+   */
+  isActive(): boolean {
+    return this.active;
+  }
+
+  isPaused(): boolean {
+    return this.active && this.paused;
+  }
+
+  /**
+   * Turn auto-play on, counting down from the given duration
+   */
+  async start(seconds: number): Promise<void> {
+    this.active = true;
+    this.paused = false;
+    this.restart(seconds);
+    await this.updateContext();
+  }
+
+  /**
+   * Count down from the given duration again, e.g. for the next note. A paused countdown stays paused.
+   */
+  restart(seconds: number): void {
+    if (!this.active) {
+      return;
+    }
+    this.held = false;
+    this.remainingMs = seconds * 1000;
+    if (this.paused) {
+      this.deadline = undefined;
+    } else {
+      this.deadline = Date.now() + this.remainingMs;
+      this.startTicking();
+    }
+    this.render();
+  }
+
+  /**
+   * Stop counting down until the next restart, e.g. while the code of a note is typed
+   */
+  hold(): void {
+    if (!this.active) {
+      return;
+    }
+    this.held = true;
+    this.deadline = undefined;
+    this.stopTicking();
+    this.render();
+  }
+
+  async pause(): Promise<void> {
+    if (!this.active || this.paused) {
+      return;
+    }
+    if (!this.held) {
+      this.remainingMs = this.deadline !== undefined ? Math.max(this.deadline - Date.now(), 0) : 0;
+    }
+    this.paused = true;
+    this.deadline = undefined;
+    this.stopTicking();
+    this.render();
+    await this.updateContext();
+  }
+
+  async resume(): Promise<void> {
+    if (!this.isPaused()) {
+      return;
+    }
+    this.paused = false;
+    if (!this.held) {
+      this.deadline = Date.now() + this.remainingMs;
+      this.startTicking();
+    }
+    this.render();
+    await this.updateContext();
+  }
+
+  /**
+   * Turn auto-play off, e.g. when the review ends
+   */
+  async stop(): Promise<void> {
+    if (!this.active) {
+      return;
+    }
+    this.active = false;
+    this.paused = false;
+    this.held = false;
+    this.deadline = undefined;
+    this.stopTicking();
+    this.statusBarItem.hide();
+    await this.updateContext();
+  }
+
+  dispose(): void {
+    this.stopTicking();
+    this.statusBarItem.dispose();
+    this._onDidElapse.dispose();
+  }
+
+  private startTicking(): void {
+    if (!this.interval) {
+      this.interval = setInterval(() => this.tick(), 250);
+    }
+  }
+
+  private stopTicking(): void {
+    clearInterval(this.interval);
+    this.interval = undefined;
+  }
+
+  private tick(): void {
+    if (this.deadline === undefined) {
+      return;
+    }
+    if (Date.now() < this.deadline) {
+      this.render();
+      return;
+    }
+
+    // Wait for the controller to show the next note, which restarts the countdown
+    this.deadline = undefined;
+    this.remainingMs = 0;
+    this.stopTicking();
+    this._onDidElapse.fire();
+  }
+
+  private render(): void {
+    const remainingMs = this.deadline !== undefined ? this.deadline - Date.now() : this.remainingMs;
+    const remaining = formatSeconds(Math.ceil(Math.max(remainingMs, 0) / 1000));
+    if (this.isPaused()) {
+      this.statusBarItem.text = `$(debug-pause) Auto-play paused${this.held ? '' : ` ${remaining}`}`;
+      this.statusBarItem.tooltip = 'Auto-play is paused. Click to resume.';
+      this.statusBarItem.command = 'code-highlight.resumeAutoPlay';
+    } else if (this.held) {
+      this.statusBarItem.text = '$(play-circle) Next after typing';
+      this.statusBarItem.tooltip = 'Auto-play counts down once the code of this note is typed. Click to pause.';
+      this.statusBarItem.command = 'code-highlight.pauseAutoPlay';
+    } else {
+      this.statusBarItem.text = `$(play-circle) Next in ${remaining}`;
+      this.statusBarItem.tooltip = 'Auto-play moves to the next note when the countdown ends. Click to pause.';
+      this.statusBarItem.command = 'code-highlight.pauseAutoPlay';
+    }
+    this.statusBarItem.show();
+  }
+
+  private async updateContext(): Promise<void> {
+    const state = this.active ? (this.isPaused() ? 'paused' : 'playing') : undefined;
+    await vscode.commands.executeCommand('setContext', AUTO_PLAY_CONTEXT_KEY, state);
+  }
+}
+
+function formatSeconds(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60);
+  return `${minutes}:${String(totalSeconds % 60).padStart(2, '0')}`;
+}
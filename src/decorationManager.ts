@@ -1,81 +1,209 @@
 import * as vscode from 'vscode';
 import {EventEmitter} from 'events';
 import {LectureFileDecorationProvider} from './fileDecorationProvider';
-import {LineRange} from './types';
+import {CONFIG_SECTION, getEmphasisStyle, getGutterIconUri, getHighlightStyle} from './highlightStyle';
+import {CharacterRange, LineRange, RangeEmphasis, RangeStyle} from './types';
+
+/**
+ * A range captured from an editor selection
+ */
+export interface SelectionRange {
+  range: LineRange;
+  characters: CharacterRange | null; // null when the selection covers whole lines
+}
+
+/**
+ * Ranges decorated in one file
+ */
+export interface DecoratedFile {
+  file: string; // Absolute path of the decorated document
+  ranges: LineRange[];
+  styles: RangeStyle[];
+  characters: (CharacterRange | null)[];
+}
+
+/**
+ * Decorations applied to one editor
+ */
+interface EditorDecorations {
+  editor: vscode.TextEditor;
+  ranges: LineRange[];
+  styles: RangeStyle[];
+  characters: (CharacterRange | null)[];
+  revealedCount: number; // Number of leading ranges highlighted, the others are hidden until revealed
+  decorationTypes: vscode.TextEditorDecorationType[];
+}
 
 class DecorationManager extends EventEmitter {
-  private activeDecoration: vscode.TextEditorDecorationType | undefined;
-  private activeDimDecoration: vscode.TextEditorDecorationType | undefined;
+  // Decorations of every decorated editor, keyed by document URI (a note can span several files)
+  private editorDecorations = new Map<string, EditorDecorations>();
   private fileDecorationProvider: LectureFileDecorationProvider | undefined = undefined;
-  private currentRanges: LineRange[] = [];
-  private currentEditor: vscode.TextEditor | undefined = undefined;
 
   setFileDecorationProvider(provider: LectureFileDecorationProvider): void {
     this.fileDecorationProvider = provider;
   }
 
   /**
-   * Get the currently selected ranges
+   * Get the decorated files with their ranges
+   */
+  getDecoratedFiles(): DecoratedFile[] {
+    return [...this.editorDecorations.values()].map(({editor, ranges, styles, characters}) => ({
+      file: editor.document.uri.fsPath,
+      ranges: [...ranges],
+      styles: [...styles],
+      characters: [...characters],
+    }));
+  }
+
+  /**
+   * Convert an editor selection to a range. Selections that start at the beginning of a line and end
+   * at the end of a line cover whole lines; any other selection keeps its exact columns.
    */
-  getCurrentRanges(): LineRange[] {
-    return [...this.currentRanges];
+  getSelectionRange(document: vscode.TextDocument, selection: vscode.Selection): SelectionRange {
+    const {start, end} = selection;
+
+    // A selection ending at the start of the next line (e.g. after triple-click) covers whole lines only
+    const endLine = end.line > start.line && end.character === 0 ? end.line - 1 : end.line;
+    const range: LineRange = [start.line, endLine];
+
+    const usePreciseRanges = vscode.workspace.getConfiguration(CONFIG_SECTION).get<boolean>('preciseRanges', true);
+    const coversWholeLines =
+      selection.isEmpty ||
+      (start.character === 0 && (endLine !== end.line || end.character >= document.lineAt(end.line).text.length));
+    if (!usePreciseRanges || coversWholeLines) {
+      return {range, characters: null};
+    }
+
+    return {range, characters: [start.character, end.character]};
   }
 
   /**
    * Apply decorations for a single selection (convenience method)
    */
   applyDecorations(editor: vscode.TextEditor, selection: vscode.Selection) {
-    const range: LineRange = [selection.start.line, selection.end.line];
-    this.applyDecorationsForRanges(editor, [range]);
+    const {range, characters} = this.getSelectionRange(editor.document, selection);
+    this.applyDecorationsForRanges(editor, [range], [], [characters]);
   }
 
   /**
-   * Apply decorations for multiple ranges
+   * Apply decorations for multiple ranges in one editor, optionally with a style and columns per range.
+   * Ranges without columns are highlighted as whole lines. Decorations in other editors are cleared.
    */
-  applyDecorationsForRanges(editor: vscode.TextEditor, ranges: LineRange[]): void {
+  applyDecorationsForRanges(
+    editor: vscode.TextEditor,
+    ranges: LineRange[],
+    styles: RangeStyle[] = [],
+    characters: (CharacterRange | null)[] = []
+  ): void {
     // Clear any existing decorations
     this.clearDecorations();
+    this.addEditorDecorations(editor, ranges, styles, characters);
+  }
 
-    // Store current ranges and editor
-    this.currentRanges = [...ranges];
-    this.currentEditor = editor;
+  /**
+   * Apply decorations in one editor while keeping the decorations of other editors
+   * (used for notes with ranges in several files). Replaces earlier decorations of the same document.
+   * Only the first revealedCount ranges are highlighted, e.g. while stepping through the ranges of a note;
+   * the others are kept so the note's ranges stay complete.
+   */
+  addEditorDecorations(
+    editor: vscode.TextEditor,
+    ranges: LineRange[],
+    styles: RangeStyle[] = [],
+    characters: (CharacterRange | null)[] = [],
+    revealedCount: number = ranges.length
+  ): void {
+    const document = editor.document;
+    this.disposeEditorDecorations(document.uri.toString());
 
-    if (ranges.length === 0) {
+    // Store current ranges, styles and columns of the editor
+    const entry: EditorDecorations = {
+      editor,
+      ranges: [...ranges],
+      styles: ranges.map((_, index) => styles[index] ?? {emphasis: 'primary'}),
+      characters: ranges.map((_, index) => characters[index] ?? null),
+      revealedCount: Math.min(Math.max(revealedCount, 0), ranges.length),
+      decorationTypes: [],
+    };
+    this.editorDecorations.set(document.uri.toString(), entry);
+
+    const revealedRanges = ranges.slice(0, entry.revealedCount);
+    if (revealedRanges.length === 0) {
       return;
     }
 
-    const document = editor.document;
+    // Styling comes from the codeHighlight settings (preset + overrides)
+    const style = getHighlightStyle();
 
-    // Create decoration type with shadcn alert-like styling
-    // Use isWholeLine: true to span the full width for a more unified box appearance
-    this.activeDecoration = vscode.window.createTextEditorDecorationType({
-      backgroundColor: 'rgba(59, 130, 246, 0.1)', // Light blue background
-      border: '1px solid rgba(59, 130, 246, 0.3)', // Blue border
-      borderRadius: '4px',
-      fontWeight: '700', // Make text bolder (increased from 600)
-      letterSpacing: '0.5px', // Add letter spacing to make text appear larger/wider
-      isWholeLine: true, // Span full width to create a more unified box appearance
-      rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
+    // Convert LineRange tuples to vscode.Range objects, grouped by emphasis and whole-line/precise kind
+    const rangesByKind = new Map<string, {emphasis: RangeEmphasis; isWholeLine: boolean; ranges: vscode.Range[]}>();
+    const labelOptions: vscode.DecorationOptions[] = [];
+    revealedRanges.forEach((lineRange, index) => {
+      const [startLine] = lineRange;
+      const {emphasis, label} = entry.styles[index];
+      const isWholeLine = !entry.characters[index];
+      const key = `${emphasis}-${isWholeLine ? 'line' : 'precise'}`;
+      const group = rangesByKind.get(key) ?? {emphasis, isWholeLine, ranges: []};
+      group.ranges.push(this.toEditorRange(document, lineRange, entry.characters[index]));
+      rangesByKind.set(key, group);
+
+      if (label) {
+        const firstLineEnd = document.lineAt(Math.min(startLine, document.lineCount - 1)).range.end;
+        labelOptions.push({
+          range: new vscode.Range(firstLineEnd, firstLineEnd),
+          renderOptions: {after: {contentText: `  ◀ ${label}`}},
+        });
+      }
     });
 
-    // Convert LineRange tuples to vscode.Range objects
-    const allRanges: vscode.Range[] = [];
-    ranges.forEach(([startLine, endLine]) => {
-      const startPos = new vscode.Position(startLine, 0);
-      const endLineText = document.lineAt(endLine);
-      const endPos = new vscode.Position(endLine, endLineText.text.length);
-      allRanges.push(new vscode.Range(startPos, endPos));
+    rangesByKind.forEach(({emphasis, isWholeLine, ranges: emphasisRanges}) => {
+      const emphasisStyle = getEmphasisStyle(style, emphasis);
+
+      // Create decoration type with shadcn alert-like styling
+      // Whole-line ranges span the full width for a more unified box appearance
+      const decoration = vscode.window.createTextEditorDecorationType({
+        backgroundColor: emphasisStyle.backgroundColor,
+        border: `${style.borderWidth} ${emphasisStyle.borderStyle} ${emphasisStyle.borderColor}`,
+        borderRadius: '4px',
+        fontWeight: emphasisStyle.fontWeight,
+        letterSpacing: emphasisStyle.letterSpacing,
+        isWholeLine,
+        rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
+        gutterIconPath: style.gutterIcon ? getGutterIconUri(emphasisStyle.borderColor) : undefined,
+        gutterIconSize: 'contain',
+      });
+
+      editor.setDecorations(decoration, emphasisRanges);
+      entry.decorationTypes.push(decoration);
     });
 
-    // Apply decoration to all ranges
-    editor.setDecorations(this.activeDecoration, allRanges);
+    // Show range labels at the end of the first line of their range
+    if (labelOptions.length > 0) {
+      const labelDecoration = vscode.window.createTextEditorDecorationType({
+        after: {
+          color: new vscode.ThemeColor('editorCodeLens.foreground'),
+          fontStyle: 'italic',
+        },
+      });
+      editor.setDecorations(labelDecoration, labelOptions);
+      entry.decorationTypes.push(labelDecoration);
+    }
+
+    // Highlight the file in the explorer using FileDecorationProvider
+    if (this.fileDecorationProvider) {
+      this.fileDecorationProvider.addHighlightedFile(document.uri);
+    }
+
+    if (!style.dimEnabled) {
+      return;
+    }
 
     // Dim/blur other text by reducing opacity on other lines
     const allLines: vscode.Range[] = [];
     const selectedLineNumbers = new Set<number>();
 
     // Collect all selected line numbers
-    ranges.forEach(([start, end]) => {
+    revealedRanges.forEach(([start, end]) => {
       for (let i = start; i <= end; i++) {
         selectedLineNumbers.add(i);
       }
@@ -88,72 +216,75 @@ class DecorationManager extends EventEmitter {
       }
     }
 
-    // Create a dimming decoration for other lines
-    this.activeDimDecoration = vscode.window.createTextEditorDecorationType({
-      opacity: '0.4', // Reduce opacity to create blur-like effect
+    // Also dim the text before and after precise ranges on their first and last line
+    revealedRanges.forEach((lineRange, index) => {
+      const rangeCharacters = entry.characters[index];
+      if (!rangeCharacters) {
+        return;
+      }
+      const range = this.toEditorRange(document, lineRange, rangeCharacters);
+      allLines.push(new vscode.Range(range.start.with({character: 0}), range.start));
+      allLines.push(new vscode.Range(range.end, document.lineAt(range.end.line).range.end));
     });
 
-    editor.setDecorations(this.activeDimDecoration, allLines);
-
-    // Highlight the file in the explorer using FileDecorationProvider
-    if (this.fileDecorationProvider) {
-      this.fileDecorationProvider.setHighlightedFile(document.uri);
-    }
-  }
-
-  /**
-   * Add a range to the current decorations
-   */
-  addRange(range: LineRange): void {
-    if (!this.currentEditor) {
-      return;
-    }
-
-    // Check if range already exists
-    const exists = this.currentRanges.some(([start, end]) => start === range[0] && end === range[1]);
+    // Create a dimming decoration for other lines
+    const dimDecoration = vscode.window.createTextEditorDecorationType({
+      opacity: String(style.dimOpacity), // Reduce opacity to create blur-like effect
+    });
 
-    if (!exists) {
-      this.currentRanges.push(range);
-      this.applyDecorationsForRanges(this.currentEditor, this.currentRanges);
-    }
+    editor.setDecorations(dimDecoration, allLines);
+    entry.decorationTypes.push(dimDecoration);
   }
 
   /**
-   * Remove a range from the current decorations
+   * Re-apply the current decorations (e.g. after the style settings changed)
    */
-  removeRange(rangeIndex: number): void {
-    if (!this.currentEditor || rangeIndex < 0 || rangeIndex >= this.currentRanges.length) {
-      return;
+  refreshDecorations(): void {
+    for (const {editor, ranges, styles, characters, revealedCount} of [...this.editorDecorations.values()]) {
+      this.addEditorDecorations(editor, ranges, styles, characters, revealedCount);
     }
-
-    this.currentRanges.splice(rangeIndex, 1);
-    this.applyDecorationsForRanges(this.currentEditor, this.currentRanges);
   }
 
   clearDecorations() {
-    if (this.activeDecoration) {
-      this.activeDecoration.dispose();
-      this.activeDecoration = undefined;
-    }
-    if (this.activeDimDecoration) {
-      this.activeDimDecoration.dispose();
-      this.activeDimDecoration = undefined;
+    for (const key of [...this.editorDecorations.keys()]) {
+      this.disposeEditorDecorations(key);
     }
 
-    // Clear file decoration in explorer
+    // Clear file decorations in explorer
     if (this.fileDecorationProvider) {
       this.fileDecorationProvider.clearHighlight();
     }
-
-    // Clear stored ranges and editor
-    this.currentRanges = [];
-    this.currentEditor = undefined;
   }
 
   requestClear() {
     this.clearDecorations();
     this.emit('clear');
   }
+
+  /**
+   * Remove the decorations of one document
+   */
+  private disposeEditorDecorations(key: string): void {
+    this.editorDecorations.get(key)?.decorationTypes.forEach(decoration => decoration.dispose());
+    this.editorDecorations.delete(key);
+  }
+
+  /**
+   * Convert a line range (and optional columns) to an editor range, clamped to the document
+   */
+  private toEditorRange(
+    document: vscode.TextDocument,
+    [startLine, endLine]: LineRange,
+    characters: CharacterRange | null
+  ): vscode.Range {
+    if (!characters) {
+      // The file may have lost lines since the range was saved
+      const lastLine = Math.min(endLine, document.lineCount - 1);
+      return document.validateRange(new vscode.Range(startLine, 0, lastLine, document.lineAt(lastLine).text.length));
+    }
+    const [startCharacter, endCharacter] = characters;
+    return document.validateRange(new vscode.Range(startLine, startCharacter, endLine, endCharacter));
+  }
 }
 
 // Create and export singleton instance
@@ -1,13 +1,32 @@
 // The module 'vscode' contains the VS Code extensibility API
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from 'vscode';
-import {createOrShowNotesPanel, getNotesPanel, updateNotesPanelRanges} from './notesPanel';
+import {
+  addRangeToNotesPanel,
+  createOrShowNotesPanel,
+  deleteLessonNote,
+  getNotesPanel,
+  moveLessonNote,
+  openNoteForEditing,
+  restoreLessonNote,
+} from './notesPanel';
 import {decorationManager} from './decorationManager';
+import {chooseHighlightPreset, CONFIG_SECTION} from './highlightStyle';
 import {LectureFileDecorationProvider} from './fileDecorationProvider';
+import {renderLessonMarkdown, saveLessonExport} from './lessonExport';
+import {renderLessonHtml} from './lessonHtmlExport';
+import {formatLessonDetails} from './lessonDetails';
+import {showLessonDetailsPanel} from './lessonDetailsPanel';
+import {lessonFileDiagnostics} from './lessonFileDiagnostics';
+import {offerUndo, showTrashQuickPick} from './lessonTrash';
+import {importLegacyNotes, offerLegacyNotesImport} from './legacyNotesImport';
 import {lessonManager} from './lessonManager';
-import {LineRange} from './types';
+import {LessonsTreeElement, LessonsTreeView} from './lessonsTreeView';
+import {Lesson, LessonSummary} from './types';
 import {NotesReviewController} from './notesReview';
+import {formatRange, showNoteQuickPick} from './noteQuickPick';
 import {logger} from './logger';
+import {getLessonsFolder, LESSONS_FOLDER_SETTING} from './workspaceFolders';
 
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
@@ -17,6 +36,9 @@ export function activate(context: vscode.ExtensionContext) {
   // Initialize lesson manager and show status bar on activation
   initializeLessonManager(context);
 
+  // Offer to import the notes of earlier versions, once per workspace
+  offerLegacyNotesImport(context);
+
   // Register the file decoration provider to highlight files in the explorer
   const fileDecorationProvider = new LectureFileDecorationProvider();
   const fileDecorationDisposable = vscode.window.registerFileDecorationProvider(fileDecorationProvider);
@@ -27,6 +49,10 @@ export function activate(context: vscode.ExtensionContext) {
   const notesReviewController = new NotesReviewController(context);
   notesReviewController.register();
 
+  // Register the lessons tree view in the explorer
+  const lessonsTreeView = new LessonsTreeView(context);
+  lessonsTreeView.register();
+
   // Register the "Add Lecture Notes" command
   const addNotesDisposable = vscode.commands.registerCommand('code-highlight.addNotes', async () => {
     const editor = vscode.window.activeTextEditor;
@@ -61,25 +87,17 @@ export function activate(context: vscode.ExtensionContext) {
         return;
       }
 
-      const newRange: LineRange = [selection.start.line, selection.end.line];
-      const currentRanges = decorationManager.getCurrentRanges();
-
-      // Check if range already exists
-      const exists = currentRanges.some(([start, end]) => start === newRange[0] && end === newRange[1]);
-
-      if (exists) {
+      // Add the range to the open note, even if it is in another file than its other ranges
+      const {range: newRange, characters: newCharacters} = decorationManager.getSelectionRange(
+        editor.document,
+        selection
+      );
+      if (!addRangeToNotesPanel(editor, newRange, newCharacters)) {
         vscode.window.showWarningMessage('This range is already selected.');
         return;
       }
 
-      // Add the new range
-      const updatedRanges = [...currentRanges, newRange];
-      decorationManager.applyDecorationsForRanges(editor, updatedRanges);
-
-      // Update the notes panel
-      updateNotesPanelRanges(updatedRanges, editor.document.uri.fsPath);
-
-      vscode.window.showInformationMessage(`Range added: Lines ${newRange[0] + 1}-${newRange[1] + 1}`);
+      vscode.window.showInformationMessage(`Range added: ${formatRange(newRange, newCharacters)}`);
       return;
     }
 
@@ -93,16 +111,14 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Get selection info
     const filePath = editor.document.uri.fsPath;
-    const startLine = selection.start.line;
-    const endLineNumber = selection.end.line;
+    const {range, characters} = decorationManager.getSelectionRange(editor.document, selection);
 
     // Apply decorations using the decoration manager
     decorationManager.applyDecorations(editor, selection);
 
     // Create or reveal the notes panel with initial range
     createOrShowNotesPanel(context, {
-      file: filePath,
-      ranges: [[startLine, endLineNumber]],
+      files: [{file: filePath, ranges: [range], characters: [characters]}],
     });
   });
 
@@ -129,7 +145,7 @@ export function activate(context: vscode.ExtensionContext) {
 
     try {
       // Create the lesson and set it as active
-      const lesson = lessonManager.createLesson(lessonTitle);
+      const lesson = await lessonManager.createLesson(lessonTitle);
       vscode.window.showInformationMessage(`Lesson "${lesson.title}" created and activated!`);
     } catch (error) {
       vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to create lesson');
@@ -139,125 +155,639 @@ export function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(createLessonDisposable);
 
   // Register the "Delete Lesson" command
-  const deleteLessonDisposable = vscode.commands.registerCommand('code-highlight.deleteLesson', async () => {
-    try {
-      const allLessons = lessonManager.getAllLessons();
+  const deleteLessonDisposable = vscode.commands.registerCommand(
+    'code-highlight.deleteLesson',
+    async (element?: LessonsTreeElement) => {
+      try {
+        // Use the lesson clicked in the lessons tree, or ask the user to pick one
+        const selected = await resolveLesson(element, 'Select a lesson to delete', 'No lessons available to delete.');
+
+        if (!selected) {
+          // User cancelled
+          return;
+        }
+
+        // Show confirmation dialog
+        const confirm = await vscode.window.showWarningMessage(
+          `Are you sure you want to delete "${selected.title}"? It can be restored from the trash.`,
+          {modal: true},
+          'Delete'
+        );
+
+        if (confirm === 'Delete') {
+          const entry = await lessonManager.deleteLesson(selected.id);
+          offerUndo(`Lesson "${selected.title}" has been moved to the trash.`, async () => {
+            await lessonManager.restoreLesson(entry.id);
+          });
+        }
+      } catch (error) {
+        vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to delete lesson');
+      }
+    }
+  );
+
+  context.subscriptions.push(deleteLessonDisposable);
 
-      if (allLessons.length === 0) {
-        vscode.window.showInformationMessage('No lessons available to delete.');
+  // Register the "Restore Deleted Lesson" command
+  const restoreDeletedDisposable = vscode.commands.registerCommand('code-highlight.restoreDeleted', async () => {
+    try {
+      const entry = await showTrashQuickPick('Select a deleted lesson or note to restore');
+      if (!entry) {
+        // User cancelled or the trash is empty
         return;
       }
 
-      // Show quick pick to select a lesson
-      const lessonItems = allLessons.map(lesson => ({
-        label: lesson.title,
-        description: `ID: ${lesson.id}`,
-        id: lesson.id,
-      }));
+      if (entry.kind === 'lesson') {
+        const lesson = await lessonManager.restoreLesson(entry.id);
+        vscode.window.showInformationMessage(`Lesson "${lesson.title}" has been restored.`);
+      } else {
+        const restored = await restoreLessonNote(entry.id);
+        if (!restored) {
+          return;
+        }
+        vscode.window.showInformationMessage(
+          `Note restored to position ${restored.noteIndex + 1} of "${restored.lessonTitle}".`
+        );
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to restore from the trash');
+    }
+  });
 
-      const selected = await vscode.window.showQuickPick(lessonItems, {
-        placeHolder: 'Select a lesson to delete',
-      });
+  context.subscriptions.push(restoreDeletedDisposable);
 
-      if (!selected) {
-        // User cancelled
+  // Register the "Empty Trash" command
+  const emptyTrashDisposable = vscode.commands.registerCommand('code-highlight.emptyTrash', async () => {
+    try {
+      const count = lessonManager.getTrashEntries().length;
+      if (count === 0) {
+        vscode.window.showInformationMessage('The trash is empty.');
         return;
       }
 
-      // Show confirmation dialog
       const confirm = await vscode.window.showWarningMessage(
-        `Are you sure you want to delete "${selected.label}"? This action cannot be undone.`,
+        `Permanently delete ${count} ${count === 1 ? 'item' : 'items'} in the trash? This action cannot be undone.`,
         {modal: true},
-        'Delete'
+        'Empty Trash'
       );
 
-      if (confirm === 'Delete') {
-        lessonManager.deleteLesson(selected.id);
-        vscode.window.showInformationMessage(`Lesson "${selected.label}" has been deleted.`);
+      if (confirm === 'Empty Trash') {
+        await lessonManager.emptyTrash();
+        vscode.window.showInformationMessage('The trash has been emptied.');
       }
     } catch (error) {
-      vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to delete lesson');
+      vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to empty the trash');
     }
   });
 
-  context.subscriptions.push(deleteLessonDisposable);
+  context.subscriptions.push(emptyTrashDisposable);
 
-  // Register the "Set Active Lesson" command
-  const setActiveLessonDisposable = vscode.commands.registerCommand('code-highlight.setActiveLesson', async () => {
+  // Register the "Import Legacy Lecture Notes" command
+  const importLegacyNotesDisposable = vscode.commands.registerCommand('code-highlight.importLegacyNotes', async () => {
     try {
-      const allLessons = lessonManager.getAllLessons();
-      const activeLesson = lessonManager.getActiveLesson();
-      const activeLessonId = activeLesson?.id;
+      await importLegacyNotes();
+    } catch (error) {
+      vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to import legacy lecture notes');
+    }
+  });
+
+  context.subscriptions.push(importLegacyNotesDisposable);
 
-      interface LessonQuickPickItem extends vscode.QuickPickItem {
-        id?: number;
-        isCreateOption?: boolean;
+  // Register the "Select Lessons Folder" command
+  const selectLessonsFolderDisposable = vscode.commands.registerCommand(
+    'code-highlight.selectLessonsFolder',
+    async () => {
+      try {
+        await selectLessonsFolder();
+      } catch (error) {
+        vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to select the lessons folder');
       }
+    }
+  );
 
-      // Create quick pick items
-      const lessonItems: LessonQuickPickItem[] = [];
+  context.subscriptions.push(selectLessonsFolderDisposable);
 
-      // Add "Create New Lesson" option at the top
-      lessonItems.push({
-        label: '$(add) Create New Lesson',
-        description: '',
-        isCreateOption: true,
-        alwaysShow: true,
-      });
+  // Register the "Rename Lesson" command
+  const renameLessonDisposable = vscode.commands.registerCommand(
+    'code-highlight.renameLesson',
+    async (element?: LessonsTreeElement) => {
+      try {
+        // Use the lesson clicked in the lessons tree, or ask the user to pick one
+        const selected = await resolveLesson(element, 'Select a lesson to rename', 'No lessons available to rename.');
+
+        if (!selected) {
+          // User cancelled
+          return;
+        }
+
+        const newTitle = await vscode.window.showInputBox({
+          prompt: 'Enter the new title for the lesson',
+          value: selected.title,
+          validateInput: value => {
+            if (!value || value.trim().length === 0) {
+              return 'Lesson title cannot be empty';
+            }
+            return null;
+          },
+        });
+
+        if (!newTitle || newTitle.trim() === selected.title) {
+          // User cancelled or kept the same title
+          return;
+        }
+
+        await lessonManager.renameLesson(selected.id, newTitle);
+        vscode.window.showInformationMessage(`Lesson renamed to "${newTitle.trim()}".`);
+      } catch (error) {
+        vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to rename lesson');
+      }
+    }
+  );
+
+  context.subscriptions.push(renameLessonDisposable);
+
+  // Register the "Edit Lesson Details" command
+  const editLessonDetailsDisposable = vscode.commands.registerCommand(
+    'code-highlight.editLessonDetails',
+    async (element?: LessonsTreeElement) => {
+      try {
+        // Use the lesson clicked in the lessons tree, or ask the user to pick one
+        const selected = await resolveLesson(element, 'Select a lesson to edit', 'No lessons available to edit.');
+
+        if (!selected) {
+          // User cancelled
+          return;
+        }
+
+        showLessonDetailsPanel(selected.id);
+      } catch (error) {
+        vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to edit lesson details');
+      }
+    }
+  );
+
+  context.subscriptions.push(editLessonDetailsDisposable);
+
+  // Register the "Move Lesson" command
+  const moveLessonDisposable = vscode.commands.registerCommand(
+    'code-highlight.moveLesson',
+    async (element?: LessonsTreeElement) => {
+      try {
+        const selected = await resolveLesson(element, 'Select a lesson to move', 'No lessons available to move.');
+        if (!selected) {
+          // User cancelled
+          return;
+        }
+
+        const lessons = lessonManager.getAllLessons();
+        const fromIndex = lessons.findIndex(lesson => lesson.id === selected.id);
+        const positionItems = lessons.map((lesson, index) => ({
+          label: `${index + 1}. ${lesson.title}`,
+          description: index === fromIndex ? 'Current position' : undefined,
+          toIndex: index,
+        }));
 
-      // Add separator if there are lessons
-      if (allLessons.length > 0) {
+        const selectedPosition = await vscode.window.showQuickPick(positionItems, {
+          placeHolder: `Move "${selected.title}" to the position of...`,
+        });
+        if (!selectedPosition || selectedPosition.toIndex === fromIndex) {
+          return;
+        }
+
+        await lessonManager.moveLesson(selected.id, selectedPosition.toIndex);
+        vscode.window.showInformationMessage(
+          `Lesson "${selected.title}" moved to position ${selectedPosition.toIndex + 1}.`
+        );
+      } catch (error) {
+        vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to move lesson');
+      }
+    }
+  );
+
+  context.subscriptions.push(moveLessonDisposable);
+
+  // Register the "Duplicate Lesson" command
+  const duplicateLessonDisposable = vscode.commands.registerCommand(
+    'code-highlight.duplicateLesson',
+    async (element?: LessonsTreeElement) => {
+      try {
+        const selected = await resolveLesson(
+          element,
+          'Select a lesson to duplicate',
+          'No lessons available to duplicate.'
+        );
+        if (!selected) {
+          // User cancelled
+          return;
+        }
+
+        const title = await promptLessonTitle('Enter the title for the copy of the lesson', `${selected.title} (copy)`);
+        if (!title) {
+          return;
+        }
+
+        const copy = await lessonManager.duplicateLesson(selected.id, title);
+        vscode.window.showInformationMessage(`Lesson "${selected.title}" duplicated as "${copy.title}".`);
+      } catch (error) {
+        vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to duplicate lesson');
+      }
+    }
+  );
+
+  context.subscriptions.push(duplicateLessonDisposable);
+
+  // Register the "Split Lesson" command
+  const splitLessonDisposable = vscode.commands.registerCommand(
+    'code-highlight.splitLesson',
+    async (element?: LessonsTreeElement) => {
+      try {
+        // A note clicked in the lessons tree is where the second lesson starts
+        let lessonId: number;
+        let noteIndex: number | undefined;
+        if (element?.kind === 'note') {
+          lessonId = element.lessonId;
+          noteIndex = element.noteIndex;
+        } else {
+          const selected = await resolveLesson(element, 'Select a lesson to split', 'No lessons available to split.');
+          if (!selected) {
+            // User cancelled
+            return;
+          }
+          lessonId = selected.id;
+        }
+
+        const lesson = lessonManager.getLessonById(lessonId);
+        if (!lesson) {
+          throw new Error(`Lesson with ID ${lessonId} does not exist`);
+        }
+        if (lesson.notes.length < 2) {
+          vscode.window.showInformationMessage(`Lesson "${lesson.title}" needs at least two notes to be split.`);
+          return;
+        }
+
+        if (noteIndex === undefined) {
+          noteIndex = await showNoteQuickPick(
+            lesson.notes,
+            'Select the first note of the new lesson',
+            0,
+            'Always stays in this lesson'
+          );
+          if (noteIndex === undefined) {
+            return;
+          }
+        }
+        if (noteIndex === 0) {
+          vscode.window.showInformationMessage('Cannot split a lesson at its first note.');
+          return;
+        }
+
+        const title = await promptLessonTitle('Enter the title for the new lesson', `${lesson.title} (part 2)`);
+        if (!title) {
+          return;
+        }
+
+        const movedCount = lesson.notes.length - noteIndex;
+        const confirm = await vscode.window.showWarningMessage(
+          `Split "${lesson.title}" at note ${noteIndex + 1}? ${movedCount} ${movedCount === 1 ? 'note' : 'notes'} ` +
+            `will be moved to the new lesson "${title.trim()}".`,
+          {modal: true},
+          'Split'
+        );
+        if (confirm !== 'Split') {
+          return;
+        }
+
+        const secondPart = await lessonManager.splitLesson(lesson.id, noteIndex, title);
+        vscode.window.showInformationMessage(`Lesson "${lesson.title}" split into "${secondPart.title}".`);
+      } catch (error) {
+        vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to split lesson');
+      }
+    }
+  );
+
+  context.subscriptions.push(splitLessonDisposable);
+
+  // Register the "Merge Lesson Into..." command
+  const mergeLessonsDisposable = vscode.commands.registerCommand(
+    'code-highlight.mergeLessons',
+    async (element?: LessonsTreeElement) => {
+      try {
+        const source = await resolveLesson(element, 'Select a lesson to merge', 'No lessons available to merge.');
+        if (!source) {
+          // User cancelled
+          return;
+        }
+
+        const targetItems = lessonManager
+          .getAllLessons()
+          .filter(lesson => lesson.id !== source.id)
+          .map(lesson => ({label: lesson.title, description: `ID: ${lesson.id}`, lesson}));
+        if (targetItems.length === 0) {
+          vscode.window.showInformationMessage('There is no other lesson to merge into.');
+          return;
+        }
+
+        const target = await vscode.window.showQuickPick(targetItems, {
+          placeHolder: `Merge "${source.title}" into...`,
+        });
+        if (!target) {
+          return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(
+          `Merge "${source.title}" into "${target.lesson.title}"? Its notes will be appended to ` +
+            `"${target.lesson.title}" and "${source.title}" will be moved to the trash.`,
+          {modal: true},
+          'Merge'
+        );
+        if (confirm !== 'Merge') {
+          return;
+        }
+
+        await lessonManager.mergeLessons(target.lesson.id, source.id);
+        vscode.window.showInformationMessage(`Lesson "${source.title}" merged into "${target.lesson.title}".`);
+      } catch (error) {
+        vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to merge lessons');
+      }
+    }
+  );
+
+  context.subscriptions.push(mergeLessonsDisposable);
+
+  // Register the "Set Active Lesson" command
+  const setActiveLessonDisposable = vscode.commands.registerCommand(
+    'code-highlight.setActiveLesson',
+    async (element?: LessonsTreeElement) => {
+      try {
+        // Activate the lesson clicked in the lessons tree directly
+        if (element?.kind === 'lesson') {
+          await lessonManager.setActiveLesson(element.lesson.id);
+          vscode.window.showInformationMessage(`Lesson "${element.lesson.title}" is now active.`);
+          return;
+        }
+
+        const allLessons = lessonManager.getAllLessons();
+        const activeLesson = lessonManager.getActiveLesson();
+        const activeLessonId = activeLesson?.id;
+
+        interface LessonQuickPickItem extends vscode.QuickPickItem {
+          id?: number;
+          isCreateOption?: boolean;
+        }
+
+        // Create quick pick items
+        const lessonItems: LessonQuickPickItem[] = [];
+
+        // Add "Create New Lesson" option at the top
         lessonItems.push({
-          label: 'Lessons',
-          kind: vscode.QuickPickItemKind.Separator,
-          isCreateOption: false,
+          label: '$(add) Create New Lesson',
+          description: '',
+          isCreateOption: true,
+          alwaysShow: true,
         });
 
-        // Add each lesson
-        for (const lesson of allLessons) {
-          const isActive = lesson.id === activeLessonId;
+        // Add separator if there are lessons
+        if (allLessons.length > 0) {
           lessonItems.push({
-            label: `${isActive ? '$(check) ' : '  '}${lesson.title}`,
-            description: isActive ? 'Currently active' : `ID: ${lesson.id}`,
-            id: lesson.id,
+            label: 'Lessons',
+            kind: vscode.QuickPickItemKind.Separator,
             isCreateOption: false,
-            picked: isActive, // Mark the current active lesson
           });
+
+          // Add each lesson
+          for (const lesson of allLessons) {
+            const isActive = lesson.id === activeLessonId;
+            lessonItems.push({
+              label: `${isActive ? '$(check) ' : '  '}${lesson.title}`,
+              description: [isActive ? 'Currently active' : `ID: ${lesson.id}`, formatLessonDetails(lesson)]
+                .filter(text => text.length > 0)
+                .join(' · '),
+              detail: lesson.description,
+              id: lesson.id,
+              isCreateOption: false,
+              picked: isActive, // Mark the current active lesson
+            });
+          }
+        }
+
+        const selected = await vscode.window.showQuickPick(lessonItems, {
+          placeHolder: 'Select a lesson or create a new one',
+        });
+
+        if (!selected) {
+          // User cancelled
+          return;
+        }
+
+        // Handle "Create New Lesson" option
+        if (selected.isCreateOption) {
+          // Execute the create lesson command
+          vscode.commands.executeCommand('code-highlight.createLesson');
+          return;
         }
+
+        // Handle lesson selection
+        if (selected.id !== undefined) {
+          // Only set if it's different from the current active lesson
+          if (selected.id !== activeLessonId) {
+            await lessonManager.setActiveLesson(selected.id);
+            vscode.window.showInformationMessage(`Lesson "${selected.label.trim()}" is now active.`);
+          } else {
+            vscode.window.showInformationMessage(`Lesson "${selected.label.trim()}" is already active.`);
+          }
+        }
+      } catch (error) {
+        vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to set active lesson');
       }
+    }
+  );
 
-      const selected = await vscode.window.showQuickPick(lessonItems, {
-        placeHolder: 'Select a lesson or create a new one',
-      });
+  context.subscriptions.push(setActiveLessonDisposable);
+
+  // Register the "Export Lesson as Markdown" command
+  const exportMarkdownDisposable = vscode.commands.registerCommand(
+    'code-highlight.exportLessonMarkdown',
+    async (element?: LessonsTreeElement) => {
+      try {
+        const selected = await resolveLesson(element, 'Select a lesson to export', 'No lessons available to export.');
+        if (!selected) {
+          // User cancelled
+          return;
+        }
+
+        const lesson = lessonManager.getLessonById(selected.id);
+        if (!lesson) {
+          throw new Error(`Lesson with ID ${selected.id} does not exist`);
+        }
+
+        const markdown = await renderLessonMarkdown(lesson);
+        const target = await saveLessonExport(lesson, markdown, 'md', 'Markdown');
+        if (target) {
+          await vscode.window.showTextDocument(target, {preview: false});
+          vscode.window.showInformationMessage(`Lesson "${lesson.title}" exported to Markdown.`);
+        }
+      } catch (error) {
+        vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to export lesson');
+      }
+    }
+  );
+
+  context.subscriptions.push(exportMarkdownDisposable);
+
+  // Register the "Export Lesson as HTML Slides" command
+  const exportHtmlDisposable = vscode.commands.registerCommand(
+    'code-highlight.exportLessonHtml',
+    async (element?: LessonsTreeElement) => {
+      try {
+        const selected = await resolveLesson(element, 'Select a lesson to export', 'No lessons available to export.');
+        if (!selected) {
+          // User cancelled
+          return;
+        }
+
+        const lesson = lessonManager.getLessonById(selected.id);
+        if (!lesson) {
+          throw new Error(`Lesson with ID ${selected.id} does not exist`);
+        }
+
+        const html = await renderLessonHtml(lesson);
+        const target = await saveLessonExport(lesson, html, 'html', 'HTML');
+        if (target) {
+          const open = await vscode.window.showInformationMessage(
+            `Lesson "${lesson.title}" exported as HTML slides.`,
+            'Open in Browser'
+          );
+          if (open === 'Open in Browser') {
+            await vscode.env.openExternal(target);
+          }
+        }
+      } catch (error) {
+        vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to export lesson');
+      }
+    }
+  );
+
+  context.subscriptions.push(exportHtmlDisposable);
 
-      if (!selected) {
+  // Register the "Edit Lecture Note" command
+  const editNoteDisposable = vscode.commands.registerCommand('code-highlight.editNote', async () => {
+    try {
+      const activeLesson = getActiveLessonWithNotes();
+      if (!activeLesson) {
+        return;
+      }
+
+      const noteIndex = await showNoteQuickPick(activeLesson.notes, 'Select a note to edit');
+      if (noteIndex === undefined) {
         // User cancelled
         return;
       }
 
-      // Handle "Create New Lesson" option
-      if (selected.isCreateOption) {
-        // Execute the create lesson command
-        vscode.commands.executeCommand('code-highlight.createLesson');
+      await openNoteForEditing(context, noteIndex);
+    } catch (error) {
+      vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to edit note');
+    }
+  });
+
+  context.subscriptions.push(editNoteDisposable);
+
+  // Register the "Delete Lecture Note" command
+  const deleteNoteDisposable = vscode.commands.registerCommand('code-highlight.deleteNote', async () => {
+    try {
+      const activeLesson = getActiveLessonWithNotes();
+      if (!activeLesson) {
         return;
       }
 
-      // Handle lesson selection
-      if (selected.id !== undefined) {
-        // Only set if it's different from the current active lesson
-        if (selected.id !== activeLessonId) {
-          lessonManager.setActiveLesson(selected.id);
-          vscode.window.showInformationMessage(`Lesson "${selected.label.trim()}" is now active.`);
-        } else {
-          vscode.window.showInformationMessage(`Lesson "${selected.label.trim()}" is already active.`);
+      const noteIndex = await showNoteQuickPick(activeLesson.notes, 'Select a note to delete');
+      if (noteIndex === undefined) {
+        // User cancelled
+        return;
+      }
+
+      await deleteLessonNote(noteIndex);
+    } catch (error) {
+      vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to delete note');
+    }
+  });
+
+  context.subscriptions.push(deleteNoteDisposable);
+
+  // Register the "Move Lecture Note" command
+  const moveNoteDisposable = vscode.commands.registerCommand('code-highlight.moveNote', async () => {
+    try {
+      const activeLesson = getActiveLessonWithNotes();
+      if (!activeLesson) {
+        return;
+      }
+
+      const noteIndex = await showNoteQuickPick(activeLesson.notes, 'Select a note to move');
+      if (noteIndex === undefined) {
+        // User cancelled
+        return;
+      }
+
+      const noteCount = activeLesson.notes.length;
+      const moveOptions = [
+        {label: '$(arrow-up) Move Up', toIndex: noteIndex - 1},
+        {label: '$(arrow-down) Move Down', toIndex: noteIndex + 1},
+        {label: '$(list-ordered) Move to Position...', toIndex: undefined},
+      ].filter(option => option.toIndex === undefined || (option.toIndex >= 0 && option.toIndex < noteCount));
+
+      const selectedMove = await vscode.window.showQuickPick(moveOptions, {
+        placeHolder: `Move note ${noteIndex + 1} of ${noteCount}`,
+      });
+      if (!selectedMove) {
+        return;
+      }
+
+      let toIndex = selectedMove.toIndex;
+      if (toIndex === undefined) {
+        const position = await vscode.window.showInputBox({
+          prompt: `Enter the new position for note ${noteIndex + 1} (1-${noteCount})`,
+          value: String(noteIndex + 1),
+          validateInput: value => {
+            const parsed = Number(value);
+            if (!Number.isInteger(parsed) || parsed < 1 || parsed > noteCount) {
+              return `Position must be a number between 1 and ${noteCount}`;
+            }
+            return null;
+          },
+        });
+        if (!position) {
+          return;
         }
+        toIndex = Number(position) - 1;
       }
+
+      await moveLessonNote(noteIndex, toIndex);
+      vscode.window.showInformationMessage(`Note moved to position ${toIndex + 1}.`);
     } catch (error) {
-      vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to set active lesson');
+      vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to move note');
     }
   });
 
-  context.subscriptions.push(setActiveLessonDisposable);
+  context.subscriptions.push(moveNoteDisposable);
+
+  // Register the "Choose Highlight Preset" command
+  const choosePresetDisposable = vscode.commands.registerCommand('code-highlight.choosePreset', async () => {
+    try {
+      await chooseHighlightPreset();
+    } catch (error) {
+      vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to change highlight preset');
+    }
+  });
+
+  context.subscriptions.push(choosePresetDisposable);
+
+  // Re-apply decorations live when the highlight style settings change
+  const configurationDisposable = vscode.workspace.onDidChangeConfiguration(event => {
+    if (event.affectsConfiguration(CONFIG_SECTION)) {
+      decorationManager.refreshDecorations();
+    }
+  });
+
+  context.subscriptions.push(configurationDisposable);
 
   // Subscribe to decoration clear events
   decorationManager.on('clear', () => {
@@ -268,14 +798,98 @@ export function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push({dispose: () => logger.dispose()});
 }
 
+/**
+ * Get the lesson clicked in the lessons tree, or let the user pick one from a quick pick
+ */
+async function resolveLesson(
+  element: LessonsTreeElement | undefined,
+  placeHolder: string,
+  emptyMessage: string
+): Promise<LessonSummary | undefined> {
+  if (element?.kind === 'lesson') {
+    return element.lesson;
+  }
+
+  const allLessons = lessonManager.getAllLessons();
+  if (allLessons.length === 0) {
+    vscode.window.showInformationMessage(emptyMessage);
+    return undefined;
+  }
+
+  // Show quick pick to select a lesson
+  const lessonItems = allLessons.map(lesson => ({
+    label: lesson.title,
+    description: [`ID: ${lesson.id}`, formatLessonDetails(lesson)].filter(text => text.length > 0).join(' · '),
+    detail: lesson.description,
+    lesson,
+  }));
+
+  const selected = await vscode.window.showQuickPick(lessonItems, {placeHolder});
+  return selected?.lesson;
+}
+
+/**
+ * Ask the user for a lesson title
+ */
+async function promptLessonTitle(prompt: string, value: string): Promise<string | undefined> {
+  return vscode.window.showInputBox({
+    prompt,
+    value,
+    validateInput: value => {
+      if (!value || value.trim().length === 0) {
+        return 'Lesson title cannot be empty';
+      }
+      return null;
+    },
+  });
+}
+
+/**
+ * Get the active lesson, informing the user when there is no lesson or it has no notes
+ */
+function getActiveLessonWithNotes(): Lesson | null {
+  const activeLesson = lessonManager.getActiveLesson();
+  if (!activeLesson) {
+    vscode.window.showErrorMessage('No active lesson. Please create or select a lesson first.');
+    return null;
+  }
+
+  if (activeLesson.notes.length === 0) {
+    vscode.window.showInformationMessage('No lecture notes found in the active lesson.');
+    return null;
+  }
+
+  return activeLesson;
+}
+
 /**
  * Initialize lesson manager and display status bar
  */
 function initializeLessonManager(context: vscode.ExtensionContext): void {
+  // Problems of invalid lesson files are shown in the Problems panel
+  context.subscriptions.push(lessonFileDiagnostics);
+
+  let isWatchingLessons = false;
+  let checkedLessonsFolder: string | undefined;
+  const initialize = () => {
+    lessonManager.initialize();
+    // Pick up lesson files changed on disk (git pull, a teammate's edit, a manual fix)
+    if (!isWatchingLessons) {
+      context.subscriptions.push(lessonManager.startWatching());
+      isWatchingLessons = true;
+    }
+    // Check the lesson files of each workspace folder once it hosts the lessons
+    const lessonsFolder = getLessonsFolder().uri.toString();
+    if (lessonsFolder !== checkedLessonsFolder) {
+      checkedLessonsFolder = lessonsFolder;
+      repairLessonFiles();
+    }
+  };
+
   // Try to initialize if workspace folder exists
   if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
     try {
-      lessonManager.initialize();
+      initialize();
     } catch (error) {
       // Silently fail if workspace not ready
       logger.warn('Could not initialize lesson manager on startup');
@@ -286,13 +900,71 @@ function initializeLessonManager(context: vscode.ExtensionContext): void {
   const workspaceChangeDisposable = vscode.workspace.onDidChangeWorkspaceFolders(() => {
     if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
       try {
-        lessonManager.initialize();
+        initialize();
       } catch (error) {
         // Silently fail if workspace not ready
       }
     }
   });
   context.subscriptions.push(workspaceChangeDisposable);
+
+  // Switch to the lessons of the workspace folder chosen in the settings
+  const lessonsFolderChangeDisposable = vscode.workspace.onDidChangeConfiguration(event => {
+    if (event.affectsConfiguration(`${CONFIG_SECTION}.${LESSONS_FOLDER_SETTING}`)) {
+      try {
+        initialize();
+      } catch (error) {
+        logger.error('Failed to switch the lessons folder', error);
+      }
+    }
+  });
+  context.subscriptions.push(lessonsFolderChangeDisposable);
+}
+
+/**
+ * Let the user choose the workspace folder that stores the lessons in a multi-root workspace
+ */
+async function selectLessonsFolder(): Promise<void> {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  if (folders.length === 0) {
+    throw new Error('No workspace folder found');
+  }
+
+  const currentFolder = getLessonsFolder();
+  const selected = await vscode.window.showQuickPick(
+    folders.map(folder => ({
+      label: folder.name,
+      description: folder === currentFolder ? 'Current' : undefined,
+      detail: folder.uri.fsPath,
+      folder,
+    })),
+    {placeHolder: 'Select the workspace folder that stores the lessons (in its .vscode folder)'}
+  );
+  if (!selected || selected.folder === currentFolder) {
+    return;
+  }
+
+  await vscode.workspace
+    .getConfiguration(CONFIG_SECTION)
+    .update(LESSONS_FOLDER_SETTING, selected.folder.name, vscode.ConfigurationTarget.Workspace);
+  vscode.window.showInformationMessage(`Lessons are now stored in ${selected.folder.name}/.vscode.`);
+}
+
+/**
+ * Repair the lesson files left inconsistent by an interrupted save, telling the user what was repaired
+ */
+async function repairLessonFiles(): Promise<void> {
+  try {
+    const repairs = await lessonManager.checkConsistency();
+    if (repairs.length > 0) {
+      vscode.window.showWarningMessage(
+        `Repaired ${repairs.length} ${repairs.length === 1 ? 'problem' : 'problems'} in the lesson files ` +
+          'left by an interrupted save. See the output for details.'
+      );
+    }
+  } catch (error) {
+    logger.error('Failed to check the consistency of the lesson files', error);
+  }
 }
 
 // This method is called when your extension is deactivated
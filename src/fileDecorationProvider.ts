@@ -4,11 +4,11 @@ export class LectureFileDecorationProvider implements vscode.FileDecorationProvi
   private _onDidChangeFileDecorations = new vscode.EventEmitter<vscode.Uri | vscode.Uri[]>();
   readonly onDidChangeFileDecorations = this._onDidChangeFileDecorations.event;
 
-  private highlightedFileUri: vscode.Uri | undefined = undefined;
+  private highlightedFileUris = new Map<string, vscode.Uri>();
 
   provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
-    // Check if this is the file we want to highlight
-    if (this.highlightedFileUri && uri.toString() === this.highlightedFileUri.toString()) {
+    // Check if this is one of the files we want to highlight
+    if (this.highlightedFileUris.has(uri.toString())) {
       return {
         color: new vscode.ThemeColor('charts.blue'), // Use blue color to match the code highlight
         tooltip: 'Currently highlighted in lecture',
@@ -17,31 +17,21 @@ export class LectureFileDecorationProvider implements vscode.FileDecorationProvi
     return undefined;
   }
 
-  // Set the file to highlight
-  setHighlightedFile(uri: vscode.Uri | undefined): void {
-    const previousUri = this.highlightedFileUri;
-    this.highlightedFileUri = uri;
-
-    // Refresh decorations for both the previous and new file
-    const urisToRefresh: vscode.Uri[] = [];
-    if (previousUri) {
-      urisToRefresh.push(previousUri);
-    }
-    if (uri) {
-      urisToRefresh.push(uri);
-    }
-
-    if (urisToRefresh.length > 0) {
-      this._onDidChangeFileDecorations.fire(urisToRefresh);
+  // Add a file to the highlighted files (a note can highlight code in several files)
+  addHighlightedFile(uri: vscode.Uri): void {
+    if (this.highlightedFileUris.has(uri.toString())) {
+      return;
     }
+    this.highlightedFileUris.set(uri.toString(), uri);
+    this._onDidChangeFileDecorations.fire(uri);
   }
 
-  // Clear the highlight
+  // Clear the highlight of all files
   clearHighlight(): void {
-    if (this.highlightedFileUri) {
-      const uriToRefresh = this.highlightedFileUri;
-      this.highlightedFileUri = undefined;
-      this._onDidChangeFileDecorations.fire(uriToRefresh);
+    if (this.highlightedFileUris.size > 0) {
+      const urisToRefresh = [...this.highlightedFileUris.values()];
+      this.highlightedFileUris.clear();
+      this._onDidChangeFileDecorations.fire(urisToRefresh);
     }
   }
 }
@@ -0,0 +1,225 @@
+import * as vscode from 'vscode';
+import {RangeEmphasis} from './types';
+
+export const CONFIG_SECTION = 'codeHighlight';
+
+/**
+ * Visual style of highlighted ranges and dimmed code
+ */
+export interface HighlightStyle {
+  backgroundColor: string;
+  borderColor: string;
+  borderWidth: string;
+  fontWeight: string;
+  letterSpacing: string;
+  gutterIcon: boolean;
+  dimEnabled: boolean;
+  dimOpacity: number;
+}
+
+export type HighlightPresetName = 'default' | 'projectorHighContrast' | 'lightTheme' | 'subtle';
+
+/**
+ * A named set of style values
+ */
+export interface HighlightPreset {
+  label: string;
+  description: string;
+  style: HighlightStyle;
+}
+
+/**
+ * Named style presets. Individual settings the user changed explicitly override the preset.
+ */
+export const HIGHLIGHT_PRESETS: Record<HighlightPresetName, HighlightPreset> = {
+  default: {
+    label: 'Default',
+    description: 'Soft blue box with bold text',
+    style: {
+      backgroundColor: 'rgba(59, 130, 246, 0.1)',
+      borderColor: 'rgba(59, 130, 246, 0.3)',
+      borderWidth: '1px',
+      fontWeight: '700',
+      letterSpacing: '0.5px',
+      gutterIcon: false,
+      dimEnabled: true,
+      dimOpacity: 0.4,
+    },
+  },
+  projectorHighContrast: {
+    label: 'Projector High Contrast',
+    description: 'Strong yellow box, thick border and heavy dimming for bright rooms',
+    style: {
+      backgroundColor: 'rgba(255, 214, 0, 0.35)',
+      borderColor: 'rgba(255, 170, 0, 0.95)',
+      borderWidth: '2px',
+      fontWeight: '800',
+      letterSpacing: '0.5px',
+      gutterIcon: true,
+      dimEnabled: true,
+      dimOpacity: 0.25,
+    },
+  },
+  lightTheme: {
+    label: 'Light Theme',
+    description: 'Deeper blue that stays visible on light backgrounds',
+    style: {
+      backgroundColor: 'rgba(37, 99, 235, 0.18)',
+      borderColor: 'rgba(37, 99, 235, 0.6)',
+      borderWidth: '1px',
+      fontWeight: '700',
+      letterSpacing: '0.5px',
+      gutterIcon: false,
+      dimEnabled: true,
+      dimOpacity: 0.5,
+    },
+  },
+  subtle: {
+    label: 'Subtle',
+    description: 'Light background and gutter marker, no bold text and no dimming',
+    style: {
+      backgroundColor: 'rgba(59, 130, 246, 0.06)',
+      borderColor: 'rgba(59, 130, 246, 0.15)',
+      borderWidth: '1px',
+      fontWeight: 'normal',
+      letterSpacing: 'normal',
+      gutterIcon: true,
+      dimEnabled: false,
+      dimOpacity: 0.6,
+    },
+  },
+};
+
+/**
+ * Resolved look of one emphasis level
+ */
+export interface EmphasisStyle {
+  backgroundColor: string;
+  borderColor: string;
+  borderStyle: 'solid' | 'dashed';
+  fontWeight: string;
+  letterSpacing: string;
+}
+
+// Display names of the emphasis levels, in the order they are offered to the user
+export const EMPHASIS_LABELS: Record<RangeEmphasis, string> = {
+  primary: 'Primary',
+  secondary: 'Secondary',
+  before: 'Before (red)',
+  after: 'After (green)',
+};
+
+// Fixed colors of the before/after emphasis levels
+const CHANGE_COLORS: Record<'before' | 'after', {backgroundColor: string; borderColor: string}> = {
+  before: {backgroundColor: 'rgba(239, 68, 68, 0.15)', borderColor: 'rgba(239, 68, 68, 0.6)'},
+  after: {backgroundColor: 'rgba(34, 197, 94, 0.15)', borderColor: 'rgba(34, 197, 94, 0.6)'},
+};
+
+// Setting keys (relative to the codeHighlight section) for each style property
+const STYLE_SETTINGS: Record<keyof HighlightStyle, string> = {
+  backgroundColor: 'highlight.backgroundColor',
+  borderColor: 'highlight.borderColor',
+  borderWidth: 'highlight.borderWidth',
+  fontWeight: 'highlight.fontWeight',
+  letterSpacing: 'highlight.letterSpacing',
+  gutterIcon: 'highlight.gutterIcon',
+  dimEnabled: 'dim.enabled',
+  dimOpacity: 'dim.opacity',
+};
+
+/**
+ * Get the current highlight style: the selected preset, overridden by any setting the user changed
+ */
+export function getHighlightStyle(): HighlightStyle {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+  const presetName = config.get<HighlightPresetName>('preset', 'default');
+  const style: HighlightStyle = {...(HIGHLIGHT_PRESETS[presetName] ?? HIGHLIGHT_PRESETS.default).style};
+
+  for (const property of Object.keys(STYLE_SETTINGS) as (keyof HighlightStyle)[]) {
+    applyUserValue(config, style, property);
+  }
+
+  style.dimOpacity = Math.min(Math.max(style.dimOpacity, 0), 1);
+  return style;
+}
+
+/**
+ * Override a style property with the value of its setting, if the user changed it
+ */
+function applyUserValue<K extends keyof HighlightStyle>(
+  config: vscode.WorkspaceConfiguration,
+  style: HighlightStyle,
+  property: K
+): void {
+  const inspected = config.inspect<HighlightStyle[K]>(STYLE_SETTINGS[property]);
+  const userValue = inspected?.workspaceFolderValue ?? inspected?.workspaceValue ?? inspected?.globalValue;
+  if (userValue !== undefined) {
+    style[property] = userValue;
+  }
+}
+
+/**
+ * Resolve how a range with the given emphasis looks, based on the configured highlight style
+ */
+export function getEmphasisStyle(style: HighlightStyle, emphasis: RangeEmphasis): EmphasisStyle {
+  switch (emphasis) {
+    case 'secondary':
+      // Same colors as the primary highlight, but without background and bold text
+      return {
+        backgroundColor: 'transparent',
+        borderColor: style.borderColor,
+        borderStyle: 'dashed',
+        fontWeight: 'normal',
+        letterSpacing: 'normal',
+      };
+    case 'before':
+    case 'after':
+      return {
+        ...CHANGE_COLORS[emphasis],
+        borderStyle: 'solid',
+        fontWeight: style.fontWeight,
+        letterSpacing: style.letterSpacing,
+      };
+    default:
+      return {
+        backgroundColor: style.backgroundColor,
+        borderColor: style.borderColor,
+        borderStyle: 'solid',
+        fontWeight: style.fontWeight,
+        letterSpacing: style.letterSpacing,
+      };
+  }
+}
+
+/**
+ * Build an SVG gutter marker (a vertical bar) in the given color
+ */
+export function getGutterIconUri(color: string): vscode.Uri {
+  const svg =
+    '<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16">' +
+    `<rect x="5" y="0" width="4" height="16" fill="${color}"/></svg>`;
+  return vscode.Uri.parse(`data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`);
+}
+
+/**
+ * Let the user pick a style preset and store it in the user settings
+ */
+export async function chooseHighlightPreset(): Promise<void> {
+  const current = vscode.workspace.getConfiguration(CONFIG_SECTION).get<HighlightPresetName>('preset', 'default');
+  const items = (Object.keys(HIGHLIGHT_PRESETS) as HighlightPresetName[]).map(name => ({
+    label: `${name === current ? '$(check) ' : ''}${HIGHLIGHT_PRESETS[name].label}`,
+    description: HIGHLIGHT_PRESETS[name].description,
+    name,
+  }));
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: 'Select a highlight style preset',
+  });
+  if (!selected) {
+    return;
+  }
+
+  await vscode.workspace
+    .getConfiguration(CONFIG_SECTION)
+    .update('preset', selected.name, vscode.ConfigurationTarget.Global);
+}
@@ -0,0 +1,37 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import {logger} from './logger';
+
+/**
+ * Escape text for safe use inside HTML
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render markdown using the built-in Markdown extension (same output as the markdown preview)
+ */
+export async function renderMarkdown(markdown: string): Promise<string> {
+  try {
+    const html = await vscode.commands.executeCommand<string>('markdown.api.render', markdown);
+    if (typeof html === 'string') {
+      return html;
+    }
+  } catch (error) {
+    logger.error('Failed to render markdown', error);
+  }
+  return `<pre>${escapeHtml(markdown)}</pre>`;
+}
+
+/**
+ * Create a random nonce for the Content-Security-Policy of a webview
+ */
+export function getNonce(): string {
+  return crypto.randomBytes(16).toString('base64');
+}
@@ -0,0 +1,167 @@
+/**
+ * Path of a value in a JSON document, e.g. ['notes', 2, 'ranges', 0]
+ */
+export type JsonPath = (string | number)[];
+
+/**
+ * Format a JSON path for messages, e.g. "$.notes[2].ranges[0]"
+ */
+export function formatJsonPath(path: JsonPath): string {
+  return path.reduce<string>(
+    (formatted, segment) => (typeof segment === 'number' ? `${formatted}[${segment}]` : `${formatted}.${segment}`),
+    '$'
+  );
+}
+
+/**
+ * Find the offsets of the value at a JSON path in a JSON text. When the value does not exist, the start of its
+ * closest existing parent is returned instead, so that errors about missing properties point at their object.
+ */
+export function findJsonValueRange(text: string, path: JsonPath): {start: number; end: number} | undefined {
+  return new JsonLocator(text, path).locate();
+}
+
+/**
+ * Find the offset at which a malformed JSON text stops being valid (as far as the scanner can tell)
+ */
+export function findJsonSyntaxError(text: string): number | undefined {
+  return new JsonLocator(text, []).findSyntaxError();
+}
+
+/**
+ * Minimal JSON scanner that records the offsets of the values along a path
+ */
+class JsonLocator {
+  private offset = 0;
+  private found: {start: number; end: number; depth: number} | undefined;
+
+  constructor(
+    private readonly text: string,
+    private readonly target: JsonPath
+  ) {}
+
+  locate(): {start: number; end: number} | undefined {
+    try {
+      this.scanValue([]);
+    } catch (error) {
+      // Malformed JSON: keep the deepest value found before the error
+    }
+
+    if (!this.found) {
+      return undefined;
+    }
+    const {start, end, depth} = this.found;
+    return depth === this.target.length ? {start, end} : {start, end: start + 1};
+  }
+
+  findSyntaxError(): number | undefined {
+    try {
+      this.scanValue([]);
+      this.skipWhitespace();
+      return this.offset < this.text.length ? this.offset : undefined;
+    } catch (error) {
+      return this.offset;
+    }
+  }
+
+  private scanValue(path: JsonPath): void {
+    this.skipWhitespace();
+    const start = this.offset;
+
+    switch (this.text[this.offset]) {
+      case '{':
+        this.scanObject(path);
+        break;
+      case '[':
+        this.scanArray(path);
+        break;
+      case '"':
+        this.scanString();
+        break;
+      default:
+        this.scanLiteral();
+    }
+
+    const isOnTargetPath = path.every((segment, index) => segment === this.target[index]);
+    if (isOnTargetPath && (!this.found || path.length > this.found.depth)) {
+      this.found = {start, end: this.offset, depth: path.length};
+    }
+  }
+
+  private scanObject(path: JsonPath): void {
+    this.expect('{');
+    this.skipWhitespace();
+    if (this.text[this.offset] === '}') {
+      this.offset++;
+      return;
+    }
+
+    for (;;) {
+      this.skipWhitespace();
+      const keyStart = this.offset;
+      this.scanString();
+      const key = JSON.parse(this.text.slice(keyStart, this.offset)) as string;
+      this.skipWhitespace();
+      this.expect(':');
+      this.scanValue([...path, key]);
+      this.skipWhitespace();
+      if (this.text[this.offset] === ',') {
+        this.offset++;
+        continue;
+      }
+      this.expect('}');
+      return;
+    }
+  }
+
+  private scanArray(path: JsonPath): void {
+    this.expect('[');
+    this.skipWhitespace();
+    if (this.text[this.offset] === ']') {
+      this.offset++;
+      return;
+    }
+
+    for (let index = 0; ; index++) {
+      this.scanValue([...path, index]);
+      this.skipWhitespace();
+      if (this.text[this.offset] === ',') {
+        this.offset++;
+        continue;
+      }
+      this.expect(']');
+      return;
+    }
+  }
+
+  private scanString(): void {
+    this.expect('"');
+    while (this.offset < this.text.length && this.text[this.offset] !== '"') {
+      this.offset += this.text[this.offset] === '\\' ? 2 : 1;
+    }
+    this.expect('"');
+  }
+
+  private scanLiteral(): void {
+    const start = this.offset;
+    while (this.offset < this.text.length && !/[\s,\]}]/.test(this.text[this.offset])) {
+      this.offset++;
+    }
+    if (this.offset === start) {
+      throw new Error(`Unexpected character at ${start}`);
+    }
+  }
+
+  private skipWhitespace(): void {
+    while (this.offset < this.text.length && /\s/.test(this.text[this.offset])) {
+      this.offset++;
+    }
+  }
+
+  private expect(character: string): void {
+    if (this.text[this.offset] !== character) {
+      throw new Error(`Expected "${character}" at ${this.offset}`);
+    }
+    this.offset++;
+  }
+}
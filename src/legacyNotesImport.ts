@@ -0,0 +1,196 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import {lessonManager} from './lessonManager';
+import {logger} from './logger';
+import {createRangeAnchors} from './noteAnchors';
+import {getNotesFilePath} from './notesStorage';
+import {CodeNote} from './types';
+import {getLessonsFolder} from './workspaceFolders';
+
+// Workspace state key remembering that the user was told about the legacy notes file
+const LEGACY_PROMPT_STATE_KEY = 'codeHighlight.legacyNotesPromptShown';
+const DEFAULT_LESSON_TITLE = 'Imported lecture notes';
+
+/**
+ * Result of converting the entries of .vscode/lecture-notes.json
+ */
+interface LegacyConversion {
+  notes: CodeNote[];
+  skipped: {index: number; reason: string}[];
+}
+
+interface TargetLessonQuickPickItem extends vscode.QuickPickItem {
+  lessonId?: number; // Undefined for the "new lesson" option
+}
+
+/**
+ * Get the path of the lecture-notes.json file of earlier versions if the workspace still has one
+ */
+export function findLegacyNotesFile(): string | undefined {
+  const notesFile = getNotesFilePath();
+  return notesFile && fs.existsSync(notesFile) ? notesFile : undefined;
+}
+
+/**
+ * Tell the user once per workspace that notes of an earlier version can be imported
+ */
+export async function offerLegacyNotesImport(context: vscode.ExtensionContext): Promise<void> {
+  if (!findLegacyNotesFile() || context.workspaceState.get<boolean>(LEGACY_PROMPT_STATE_KEY)) {
+    return;
+  }
+  await context.workspaceState.update(LEGACY_PROMPT_STATE_KEY, true);
+
+  const action = await vscode.window.showInformationMessage(
+    'This workspace has lecture notes from an earlier version (.vscode/lecture-notes.json). ' +
+      'Import them into a lesson?',
+    'Import',
+    'Not Now'
+  );
+  if (action === 'Import') {
+    await vscode.commands.executeCommand('code-highlight.importLegacyNotes');
+  }
+}
+
+/**
+ * Convert the notes of .vscode/lecture-notes.json into code notes of a new or existing lesson,
+ * then offer to archive the old file
+ */
+export async function importLegacyNotes(): Promise<void> {
+  const notesFile = findLegacyNotesFile();
+  if (!notesFile) {
+    vscode.window.showInformationMessage('No .vscode/lecture-notes.json from an earlier version was found.');
+    return;
+  }
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(fs.readFileSync(notesFile, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read ${notesFile}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!Array.isArray(entries)) {
+    throw new Error(`${notesFile} does not contain a list of notes`);
+  }
+
+  const {notes, skipped} = await convertLegacyNotes(entries);
+  for (const {index, reason} of skipped) {
+    logger.warn(`Skipped legacy note ${index + 1}: ${reason}`);
+  }
+  if (notes.length === 0) {
+    vscode.window.showWarningMessage(`None of the ${entries.length} notes in lecture-notes.json could be converted.`);
+    return;
+  }
+
+  const lessonId = await pickTargetLesson(notes.length);
+  if (lessonId === undefined) {
+    // User cancelled
+    return;
+  }
+  await lessonManager.addNotes(lessonId, notes);
+
+  const lessonTitle = lessonManager.getLessonById(lessonId)?.title ?? DEFAULT_LESSON_TITLE;
+  const skippedText = skipped.length > 0 ? ` ${skipped.length} could not be converted (see the output).` : '';
+  const action = await vscode.window.showInformationMessage(
+    `Imported ${notes.length} ${notes.length === 1 ? 'note' : 'notes'} into "${lessonTitle}".${skippedText}`,
+    'Archive lecture-notes.json'
+  );
+  if (action === 'Archive lecture-notes.json') {
+    const archivePath = archiveLegacyNotesFile(notesFile);
+    vscode.window.showInformationMessage(`Archived the old notes as ${path.basename(archivePath)}.`);
+  }
+}
+
+/**
+ * Convert legacy {file, start, end, notes} entries (0-based inclusive lines) into code notes,
+ * anchoring their ranges to the current code when the file still exists
+ */
+async function convertLegacyNotes(entries: unknown[]): Promise<LegacyConversion> {
+  // The paths of lecture-notes.json are relative to the folder containing it, which hosts the lessons
+  const workspaceFolder = getLessonsFolder();
+
+  const conversion: LegacyConversion = {notes: [], skipped: []};
+  for (const [index, entry] of entries.entries()) {
+    const {file, start, end, notes} = (entry ?? {}) as Record<string, unknown>;
+    if (typeof file !== 'string' || file.length === 0) {
+      conversion.skipped.push({index, reason: 'missing "file"'});
+      continue;
+    }
+    if (
+      typeof start !== 'number' ||
+      typeof end !== 'number' ||
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < 0 ||
+      start > end
+    ) {
+      conversion.skipped.push({index, reason: `invalid lines ${String(start)}-${String(end)} in ${file}`});
+      continue;
+    }
+
+    const relativePath = path.isAbsolute(file) ? path.relative(workspaceFolder.uri.fsPath, file) : file;
+    const note: CodeNote = {
+      type: 'code',
+      file: relativePath,
+      ranges: [[start, end]],
+      markdown: typeof notes === 'string' ? notes : '',
+    };
+
+    // Anchor the range to its code so it can be re-located after edits, when the file is still there
+    const absolutePath = path.join(workspaceFolder.uri.fsPath, relativePath);
+    if (fs.existsSync(absolutePath)) {
+      try {
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(absolutePath));
+        if (end < document.lineCount) {
+          note.anchors = createRangeAnchors(document, note.ranges);
+        }
+      } catch (error) {
+        logger.error(`Failed to open ${relativePath} to anchor legacy note ${index + 1}`, error);
+      }
+    }
+
+    conversion.notes.push(note);
+  }
+  return conversion;
+}
+
+/**
+ * Let the user choose the lesson to import into, creating a new lesson if asked
+ */
+async function pickTargetLesson(noteCount: number): Promise<number | undefined> {
+  const items: TargetLessonQuickPickItem[] = [
+    {label: '$(add) New Lesson', description: DEFAULT_LESSON_TITLE, alwaysShow: true},
+  ];
+  const lessons = lessonManager.getAllLessons();
+  if (lessons.length > 0) {
+    items.push({label: 'Lessons', kind: vscode.QuickPickItemKind.Separator});
+    items.push(...lessons.map(lesson => ({label: lesson.title, description: `ID: ${lesson.id}`, lessonId: lesson.id})));
+  }
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: `Import ${noteCount} ${noteCount === 1 ? 'note' : 'notes'} into...`,
+  });
+  if (!selected) {
+    return undefined;
+  }
+  if (selected.lessonId !== undefined) {
+    return selected.lessonId;
+  }
+
+  const title = await vscode.window.showInputBox({
+    prompt: 'Enter the title for the lesson of the imported notes',
+    value: DEFAULT_LESSON_TITLE,
+    validateInput: value => (value.trim().length === 0 ? 'Lesson title cannot be empty' : null),
+  });
+  return title ? (await lessonManager.createLesson(title)).id : undefined;
+}
+
+/**
+ * Rename lecture-notes.json so it is not offered for import again, returning the new path
+ */
+function archiveLegacyNotesFile(notesFile: string): string {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const archivePath = path.join(path.dirname(notesFile), `lecture-notes.imported-${stamp}.json`);
+  fs.renameSync(notesFile, archivePath);
+  return archivePath;
+}
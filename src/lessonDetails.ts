@@ -0,0 +1,91 @@
+import * as vscode from 'vscode';
+import {Lesson, LessonDetails} from './types';
+
+/**
+ * Trim lesson details and drop the empty ones
+ */
+export function normalizeLessonDetails(details: LessonDetails): LessonDetails {
+  const normalized: LessonDetails = {};
+
+  const description = details.description?.trim();
+  if (description) {
+    normalized.description = description;
+  }
+
+  const tags = [...new Set((details.tags ?? []).map(tag => tag.trim()).filter(tag => tag.length > 0))];
+  if (tags.length > 0) {
+    normalized.tags = tags;
+  }
+
+  const minutes = details.estimatedMinutes;
+  if (minutes !== undefined) {
+    if (!Number.isFinite(minutes) || minutes < 0) {
+      throw new Error('Estimated duration must be a positive number of minutes');
+    }
+    if (minutes > 0) {
+      normalized.estimatedMinutes = Math.round(minutes);
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * Format an estimated duration, e.g. "45 min" or "1 h 30 min"
+ */
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) {
+    return `${rest} min`;
+  }
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+}
+
+/**
+ * Short one-line summary of the details of a lesson (duration and tags), empty if it has none
+ */
+export function formatLessonDetails(details: LessonDetails): string {
+  const parts: string[] = [];
+  if (details.estimatedMinutes) {
+    parts.push(formatDuration(details.estimatedMinutes));
+  }
+  if (details.tags && details.tags.length > 0) {
+    parts.push(details.tags.map(tag => `#${tag}`).join(' '));
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * Tooltip describing a lesson with its metadata, used by the status bar and the lessons tree
+ */
+export function getLessonTooltip(lesson: Lesson, heading?: string): vscode.MarkdownString {
+  const tooltip = new vscode.MarkdownString();
+  tooltip.appendMarkdown(heading ? `${heading}: ` : '');
+  tooltip.appendMarkdown('**');
+  tooltip.appendText(lesson.title);
+  tooltip.appendMarkdown('**\n\n');
+
+  if (lesson.description) {
+    tooltip.appendText(lesson.description);
+    tooltip.appendMarkdown('\n\n');
+  }
+
+  const lines = [`${lesson.notes.length} ${lesson.notes.length === 1 ? 'note' : 'notes'}`];
+  const details = formatLessonDetails(lesson);
+  if (details) {
+    lines.push(details);
+  }
+  if (lesson.createdAt) {
+    lines.push(`Created ${new Date(lesson.createdAt).toLocaleString()}`);
+  }
+  if (lesson.updatedAt) {
+    lines.push(`Updated ${new Date(lesson.updatedAt).toLocaleString()}`);
+  }
+  for (const line of lines) {
+    tooltip.appendText(line);
+    tooltip.appendMarkdown('\n\n');
+  }
+
+  return tooltip;
+}
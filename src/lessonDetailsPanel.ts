@@ -0,0 +1,228 @@
+import * as vscode from 'vscode';
+import {escapeHtml, getNonce} from './htmlUtils';
+import {lessonManager} from './lessonManager';
+import {Lesson} from './types';
+
+let detailsPanel: vscode.WebviewPanel | undefined;
+let editedLessonId: number | undefined;
+
+/**
+ * Open the form to edit the title and metadata of a lesson (replaces the form of another lesson)
+ */
+export function showLessonDetailsPanel(lessonId: number): void {
+  const lesson = lessonManager.getLessonById(lessonId);
+  if (!lesson) {
+    throw new Error(`Lesson with ID ${lessonId} does not exist`);
+  }
+
+  editedLessonId = lessonId;
+
+  if (detailsPanel) {
+    detailsPanel.title = `Lesson Details: ${lesson.title}`;
+    detailsPanel.webview.html = getWebviewContent(lesson);
+    detailsPanel.reveal(undefined, false);
+    return;
+  }
+
+  detailsPanel = vscode.window.createWebviewPanel(
+    'lessonDetails',
+    `Lesson Details: ${lesson.title}`,
+    vscode.window.activeTextEditor?.viewColumn ?? vscode.ViewColumn.One,
+    {enableScripts: true}
+  );
+  detailsPanel.webview.html = getWebviewContent(lesson);
+
+  detailsPanel.webview.onDidReceiveMessage(async message => {
+    switch (message.command) {
+      case 'save':
+        if (editedLessonId === undefined) {
+          return;
+        }
+        try {
+          const minutes = String(message.estimatedMinutes ?? '').trim();
+          await lessonManager.updateLessonDetails(editedLessonId, message.title ?? '', {
+            description: message.description,
+            tags: String(message.tags ?? '').split(','),
+            estimatedMinutes: minutes === '' ? undefined : Number(minutes),
+          });
+          vscode.window.showInformationMessage(`Lesson "${String(message.title).trim()}" updated.`);
+          detailsPanel?.dispose();
+        } catch (error) {
+          vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to update lesson');
+        }
+        break;
+      case 'cancel':
+        detailsPanel?.dispose();
+        break;
+    }
+  });
+
+  detailsPanel.onDidDispose(() => {
+    detailsPanel = undefined;
+    editedLessonId = undefined;
+  });
+}
+
+/**
+ * Generate the HTML of the lesson details form, pre-filled with the current values
+ */
+function getWebviewContent(lesson: Lesson): string {
+  const nonce = getNonce();
+  const timestamps = [
+    lesson.createdAt ? `Created ${new Date(lesson.createdAt).toLocaleString()}` : undefined,
+    lesson.updatedAt ? `Updated ${new Date(lesson.updatedAt).toLocaleString()}` : undefined,
+  ].filter((text): text is string => text !== undefined);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <title>Lesson Details</title>
+  <style>
+    body {
+      font-family: var(--vscode-font-family);
+      background-color: var(--vscode-editor-background);
+      color: var(--vscode-editor-foreground);
+      padding: 16px;
+      max-width: 640px;
+    }
+
+    label {
+      display: block;
+      margin: 12px 0 4px;
+      font-size: 12px;
+      font-weight: 600;
+    }
+
+    input, textarea {
+      width: 100%;
+      box-sizing: border-box;
+      padding: 6px 8px;
+      border: 1px solid var(--vscode-input-border, transparent);
+      background-color: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+      font-family: var(--vscode-font-family);
+      font-size: 13px;
+    }
+
+    textarea {
+      min-height: 80px;
+      resize: vertical;
+    }
+
+    .hint, .timestamps {
+      margin-top: 4px;
+      font-size: 11px;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .timestamps {
+      margin-top: 16px;
+    }
+
+    .error {
+      margin-top: 4px;
+      font-size: 12px;
+      color: var(--vscode-errorForeground);
+    }
+
+    .button-container {
+      margin-top: 20px;
+      display: flex;
+      gap: 8px;
+      justify-content: flex-end;
+    }
+
+    button {
+      padding: 6px 16px;
+      border: 1px solid var(--vscode-button-border);
+      border-radius: 2px;
+      font-family: var(--vscode-font-family);
+      font-size: 13px;
+      cursor: pointer;
+    }
+
+    .button-cancel {
+      background-color: transparent;
+      color: var(--vscode-foreground);
+    }
+
+    .button-cancel:hover {
+      background-color: var(--vscode-button-secondaryHoverBackground);
+    }
+
+    .button-save {
+      background-color: var(--vscode-button-background);
+      color: var(--vscode-button-foreground);
+    }
+
+    .button-save:hover {
+      background-color: var(--vscode-button-hoverBackground);
+    }
+  </style>
+</head>
+<body>
+  <form id="details-form">
+    <label for="title">Title</label>
+    <input id="title" type="text" value="${escapeHtml(lesson.title)}" required>
+
+    <label for="description">Description</label>
+    <textarea id="description">${escapeHtml(lesson.description ?? '')}</textarea>
+
+    <label for="tags">Tags</label>
+    <input id="tags" type="text" value="${escapeHtml((lesson.tags ?? []).join(', '))}" placeholder="e.g. react, hooks">
+    <div class="hint">Separate tags with commas</div>
+
+    <label for="estimated-minutes">Estimated duration (minutes)</label>
+    <input id="estimated-minutes" type="number" min="0" step="1" value="${lesson.estimatedMinutes ?? ''}">
+
+    <div class="error" id="error"></div>
+    <div class="timestamps">${timestamps.map(escapeHtml).join(' · ')}</div>
+
+    <div class="button-container">
+      <button type="button" class="button-cancel" id="cancel-button">Cancel</button>
+      <button type="submit" class="button-save">Save</button>
+    </div>
+  </form>
+
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const form = document.getElementById('details-form');
+    const titleInput = document.getElementById('title');
+    const minutesInput = document.getElementById('estimated-minutes');
+    const errorElement = document.getElementById('error');
+
+    form.addEventListener('submit', event => {
+      event.preventDefault();
+
+      if (titleInput.value.trim().length === 0) {
+        errorElement.textContent = 'Lesson title cannot be empty';
+        titleInput.focus();
+        return;
+      }
+      if (minutesInput.value !== '' && !(Number(minutesInput.value) >= 0)) {
+        errorElement.textContent = 'Estimated duration must be a positive number of minutes';
+        minutesInput.focus();
+        return;
+      }
+
+      vscode.postMessage({
+        command: 'save',
+        title: titleInput.value,
+        description: document.getElementById('description').value,
+        tags: document.getElementById('tags').value,
+        estimatedMinutes: minutesInput.value,
+      });
+    });
+
+    document.getElementById('cancel-button').addEventListener('click', () => {
+      vscode.postMessage({command: 'cancel'});
+    });
+
+    titleInput.focus();
+  </script>
+</body>
+</html>`;
+}
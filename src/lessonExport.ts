@@ -0,0 +1,195 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import {logger} from './logger';
+import {relocateNoteRanges} from './noteAnchors';
+import {getNoteFiles} from './noteFiles';
+import {CodeNote, FileRanges, Lesson, LineRange} from './types';
+import {formatNoteFile, getLessonsFolder, resolveNoteFile} from './workspaceFolders';
+
+/**
+ * A contiguous block of highlighted lines read from a file
+ */
+export interface CodeSnippet {
+  startLine: number; // 0-based line number of the first line
+  lines: string[];
+}
+
+/**
+ * The code highlighted by a code note, split into contiguous snippets
+ */
+export interface NoteCode {
+  languageId: string;
+  snippets: CodeSnippet[];
+}
+
+// VS Code language IDs whose Markdown fence tag differs from the ID
+const FENCE_LANGUAGES: Record<string, string> = {
+  typescriptreact: 'tsx',
+  javascriptreact: 'jsx',
+  shellscript: 'bash',
+  plaintext: '',
+  jsonc: 'json',
+};
+
+/**
+ * Read the highlighted code of one file of a code note. Overlapping and adjacent ranges are merged into
+ * one snippet. Returns undefined if the file cannot be opened.
+ */
+export async function readNoteCode(note: FileRanges): Promise<NoteCode | undefined> {
+  const document = await openNoteDocument(note);
+  if (!document) {
+    return undefined;
+  }
+
+  const {ranges} = relocateNoteRanges(document, note);
+  const snippets = mergeRanges(ranges).map(([start, end]) => {
+    const lines: string[] = [];
+    for (let i = start; i <= end; i++) {
+      lines.push(document.lineAt(i).text);
+    }
+    return {startLine: start, lines};
+  });
+
+  return {languageId: document.languageId, snippets};
+}
+
+/**
+ * Open a file a code note points to, returning undefined if it cannot be opened
+ */
+export async function openNoteDocument(note: FileRanges): Promise<vscode.TextDocument | undefined> {
+  if (!vscode.workspace.workspaceFolders?.length) {
+    return undefined;
+  }
+
+  try {
+    return await vscode.workspace.openTextDocument(resolveNoteFile(note));
+  } catch (error) {
+    logger.error(`Could not read ${formatNoteFile(note)} for export`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Ask where to save an exported lesson, write it and return the chosen file (undefined if cancelled)
+ */
+export async function saveLessonExport(
+  lesson: Lesson,
+  content: string,
+  fileExtension: string,
+  filterName: string
+): Promise<vscode.Uri | undefined> {
+  const workspaceFolder = vscode.workspace.workspaceFolders?.length ? getLessonsFolder() : undefined;
+  const fileName = `${slugify(lesson.title) || `lesson-${lesson.id}`}.${fileExtension}`;
+  const defaultUri = workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, fileName) : undefined;
+
+  const target = await vscode.window.showSaveDialog({
+    defaultUri,
+    filters: {[filterName]: [fileExtension]},
+    saveLabel: 'Export',
+  });
+  if (!target) {
+    return undefined;
+  }
+
+  fs.writeFileSync(target.fsPath, content, 'utf-8');
+  logger.info(`Exported lesson "${lesson.title}" to ${target.fsPath}`);
+  return target;
+}
+
+/**
+ * Render a lesson as a standalone Markdown document
+ */
+export async function renderLessonMarkdown(lesson: Lesson): Promise<string> {
+  const sections: string[] = [`# ${lesson.title}`];
+
+  for (const note of lesson.notes) {
+    const parts: string[] = [];
+    if (note.markdown.trim().length > 0) {
+      parts.push(note.markdown.trim());
+    }
+
+    if (note.type === 'code') {
+      parts.push(await renderCodeNoteMarkdown(note));
+    }
+
+    sections.push(parts.join('\n\n'));
+  }
+
+  return `${sections.join('\n\n---\n\n')}\n`;
+}
+
+/**
+ * Render the highlighted code of every file of a code note
+ */
+async function renderCodeNoteMarkdown(note: CodeNote): Promise<string> {
+  const files: string[] = [];
+  for (const fileRanges of getNoteFiles(note)) {
+    files.push(await renderFileMarkdown(fileRanges));
+  }
+  return files.join('\n\n');
+}
+
+/**
+ * Render the highlighted code of one file as fenced code blocks with line numbers
+ */
+async function renderFileMarkdown(note: FileRanges): Promise<string> {
+  const code = await readNoteCode(note);
+  if (!code) {
+    return `> ⚠️ Could not read \`${formatNoteFile(note)}\``;
+  }
+  if (code.snippets.length === 0) {
+    return `> ⚠️ The highlighted code could not be found in \`${formatNoteFile(note)}\``;
+  }
+
+  const language = getFenceLanguage(code.languageId);
+  const lastLine = Math.max(...code.snippets.map(snippet => snippet.startLine + snippet.lines.length));
+  const numberWidth = String(lastLine).length;
+
+  const blocks = code.snippets.map(snippet => {
+    const numberedLines = snippet.lines.map(
+      (line, i) => `${String(snippet.startLine + i + 1).padStart(numberWidth)} | ${line}`
+    );
+    const fence = getFence(snippet.lines);
+    return `${fence}${language}\n${numberedLines.join('\n')}\n${fence}`;
+  });
+
+  // Separate non-adjacent snippets with an elision marker
+  return [`**\`${formatNoteFile(note)}\`**`, blocks.join('\n\n⋮\n\n')].join('\n\n');
+}
+
+/**
+ * Sort ranges and merge the ones that overlap or touch
+ */
+export function mergeRanges(ranges: LineRange[]): LineRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: LineRange[] = [];
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export function getFenceLanguage(languageId: string): string {
+  return FENCE_LANGUAGES[languageId] ?? languageId;
+}
+
+/**
+ * Use a fence longer than any backtick run inside the code
+ */
+export function getFence(lines: string[]): string {
+  const longestRun = Math.max(0, ...lines.map(line => Math.max(0, ...(line.match(/`+/g) || []).map(r => r.length))));
+  return '`'.repeat(Math.max(3, longestRun + 1));
+}
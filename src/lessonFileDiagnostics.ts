@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+import {findJsonValueRange, formatJsonPath} from './jsonLocation';
+import {LessonFileError} from './lessonSchema';
+
+/**
+ * Shows the problems of invalid lesson files in the Problems panel
+ */
+class LessonFileDiagnostics implements vscode.Disposable {
+  private collection: vscode.DiagnosticCollection | undefined;
+
+  /**
+   * Replace the diagnostics of a lesson file with the problems of a validation error
+   */
+  report(error: LessonFileError, content: string): void {
+    const diagnostics = error.issues.map(issue => {
+      const offsets = issue.offset !== undefined ? {start: issue.offset, end: issue.offset + 1} : undefined;
+      const {start, end} = offsets ?? findJsonValueRange(content, issue.path) ?? {start: 0, end: 0};
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(getPosition(content, start), getPosition(content, end)),
+        `${formatJsonPath(issue.path)}: ${issue.message}`,
+        vscode.DiagnosticSeverity.Error
+      );
+      diagnostic.source = 'Code Highlight';
+      return diagnostic;
+    });
+
+    this.getCollection().set(vscode.Uri.file(error.filePath), diagnostics);
+  }
+
+  /**
+   * Remove the diagnostics of a lesson file, e.g. after it was fixed
+   */
+  clear(filePath: string): void {
+    this.collection?.delete(vscode.Uri.file(filePath));
+  }
+
+  dispose(): void {
+    this.collection?.dispose();
+    this.collection = undefined;
+  }
+
+  private getCollection(): vscode.DiagnosticCollection {
+    if (!this.collection) {
+      this.collection = vscode.languages.createDiagnosticCollection('codeHighlight.lessons');
+    }
+    return this.collection;
+  }
+}
+
+/**
+ * Convert an offset in a text to a line/character position
+ */
+function getPosition(content: string, offset: number): vscode.Position {
+  const before = content.slice(0, Math.min(offset, content.length));
+  const line = before.split('\n').length - 1;
+  return new vscode.Position(line, before.length - (before.lastIndexOf('\n') + 1));
+}
+
+export const lessonFileDiagnostics = new LessonFileDiagnostics();
@@ -0,0 +1,406 @@
+import * as vscode from 'vscode';
+import {EMPHASIS_LABELS, getEmphasisStyle, getHighlightStyle, HighlightStyle} from './highlightStyle';
+import {escapeHtml, renderMarkdown} from './htmlUtils';
+import {getFence, getFenceLanguage, mergeRanges, openNoteDocument} from './lessonExport';
+import {relocateNoteRanges} from './noteAnchors';
+import {getNoteFiles} from './noteFiles';
+import {CodeNote, FileRanges, Lesson, LineRange, RangeEmphasis} from './types';
+import {formatNoteFile} from './workspaceFolders';
+
+// Number of dimmed lines shown around the highlighted ranges of a slide
+const CONTEXT_LINES = 8;
+
+/**
+ * Render a lesson as a self-contained HTML slide deck (one slide per note).
+ * Markdown and code are rendered at export time, so the file works offline without any CDN.
+ */
+export async function renderLessonHtml(lesson: Lesson): Promise<string> {
+  const slides: string[] = [
+    `<section class="slide slide-title">
+      <h1>${escapeHtml(lesson.title)}</h1>
+      <p class="subtitle">${lesson.notes.length} ${lesson.notes.length === 1 ? 'note' : 'notes'}</p>
+    </section>`,
+  ];
+
+  for (const note of lesson.notes) {
+    const notesHtml = `<div class="notes">${await renderMarkdown(note.markdown)}</div>`;
+
+    if (note.type === 'code') {
+      slides.push(`<section class="slide slide-code">
+      ${notesHtml}
+      <div class="code-panel">${await renderCodeFiles(note)}</div>
+    </section>`);
+    } else {
+      slides.push(`<section class="slide slide-general">${notesHtml}</section>`);
+    }
+  }
+
+  return getDeckHtml(lesson.title, slides, getHighlightStyle());
+}
+
+/**
+ * Render the code of every file of a note, one below the other
+ */
+async function renderCodeFiles(note: CodeNote): Promise<string> {
+  const files: string[] = [];
+  for (const fileRanges of getNoteFiles(note)) {
+    files.push(`<div class="code-file">
+        <div class="file-name">${escapeHtml(formatNoteFile(fileRanges))}</div>
+        ${await renderCodePanel(fileRanges)}
+      </div>`);
+  }
+  return files.join('');
+}
+
+/**
+ * Render the code of one file of a note with its ranges highlighted and the surrounding lines dimmed
+ */
+async function renderCodePanel(note: FileRanges): Promise<string> {
+  const document = await openNoteDocument(note);
+  if (!document) {
+    return `<p class="warning">Could not read ${escapeHtml(formatNoteFile(note))}</p>`;
+  }
+
+  const {ranges, rangeStyles} = relocateNoteRanges(document, note);
+  if (ranges.length === 0) {
+    return `<p class="warning">The highlighted code could not be found in ${escapeHtml(formatNoteFile(note))}</p>`;
+  }
+
+  // Emphasis of every highlighted line, and labels shown on the first line of their range
+  const lineEmphasis = new Map<number, RangeEmphasis>();
+  const lineLabels = new Map<number, string>();
+  ranges.forEach(([start, end], index) => {
+    const style = rangeStyles?.[index];
+    for (let i = start; i <= end; i++) {
+      lineEmphasis.set(i, style?.emphasis ?? 'primary');
+    }
+    if (style?.label) {
+      lineLabels.set(start, style.label);
+    }
+  });
+
+  // Show each range with some dimmed context, merging windows that overlap
+  const lastLine = document.lineCount - 1;
+  const windows = mergeRanges(
+    ranges.map(
+      ([start, end]): LineRange => [Math.max(0, start - CONTEXT_LINES), Math.min(lastLine, end + CONTEXT_LINES)]
+    )
+  );
+  const numberWidth = String(windows[windows.length - 1][1] + 1).length;
+
+  const blocks: string[] = [];
+  for (const [start, end] of windows) {
+    const lines: string[] = [];
+    for (let i = start; i <= end; i++) {
+      lines.push(document.lineAt(i).text);
+    }
+
+    const highlighted = await highlightCode(lines, getFenceLanguage(document.languageId));
+    const linesHtml = highlighted.map((lineHtml, i) => {
+      const lineNumber = start + i;
+      const emphasis = lineEmphasis.get(lineNumber);
+      const className = emphasis ? `line highlighted emphasis-${emphasis}` : 'line dimmed';
+      const number = String(lineNumber + 1).padStart(numberWidth);
+      const label = lineLabels.has(lineNumber)
+        ? `<span class="range-label">◀ ${escapeHtml(lineLabels.get(lineNumber)!)}</span>`
+        : '';
+      return `<span class="${className}"><span class="line-number">${number}</span>${lineHtml || ' '}${label}</span>`;
+    });
+    blocks.push(`<pre class="code"><code>${linesHtml.join('')}</code></pre>`);
+  }
+
+  return blocks.join('<div class="elision">⋮</div>');
+}
+
+/**
+ * Syntax-highlight lines of code (via the Markdown extension's highlighter) and return one HTML string per line
+ */
+async function highlightCode(lines: string[], language: string): Promise<string[]> {
+  const fence = getFence(lines);
+  const rendered = await renderMarkdown(`${fence}${language}\n${lines.join('\n')}\n${fence}`);
+  const match = rendered.match(/<code[^>]*>([\s\S]*)<\/code>/);
+  if (!match) {
+    return lines.map(escapeHtml);
+  }
+
+  const highlightedLines = splitHighlightedLines(match[1]);
+  if (highlightedLines.length < lines.length) {
+    return lines.map(escapeHtml);
+  }
+  return highlightedLines.slice(0, lines.length);
+}
+
+/**
+ * Split highlighted HTML into lines, closing and re-opening spans that cross line breaks
+ */
+export function splitHighlightedLines(html: string): string[] {
+  const lines: string[] = [];
+  const openTags: string[] = [];
+  let currentLine = '';
+
+  for (const token of html.split(/(<span[^>]*>|<\/span>|\n)/)) {
+    if (token === '\n') {
+      lines.push(currentLine + '</span>'.repeat(openTags.length));
+      currentLine = openTags.join('');
+    } else if (token.startsWith('<span')) {
+      openTags.push(token);
+      currentLine += token;
+    } else if (token === '</span>') {
+      openTags.pop();
+      currentLine += token;
+    } else {
+      currentLine += token;
+    }
+  }
+
+  if (currentLine.length > 0) {
+    lines.push(currentLine);
+  }
+  return lines;
+}
+
+/**
+ * CSS rules for highlighted lines of every emphasis level, mirroring the editor decorations
+ */
+function getEmphasisCss(style: HighlightStyle): string {
+  return (Object.keys(EMPHASIS_LABELS) as RangeEmphasis[])
+    .map(emphasis => {
+      const emphasisStyle = getEmphasisStyle(style, emphasis);
+      const border = `${style.borderWidth} ${emphasisStyle.borderStyle} ${emphasisStyle.borderColor}`;
+      return `    .line.emphasis-${emphasis} {
+      background-color: ${emphasisStyle.backgroundColor};
+      border-left: ${border};
+      border-right: ${border};
+      font-weight: ${emphasisStyle.fontWeight};
+      letter-spacing: ${emphasisStyle.letterSpacing};
+    }`;
+    })
+    .join('\n\n');
+}
+
+function getDeckHtml(title: string, slides: string[], style: HighlightStyle): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    * {
+      margin: 0;
+      padding: 0;
+      box-sizing: border-box;
+    }
+
+    html, body {
+      height: 100%;
+      background-color: #1e1e1e;
+      color: #d4d4d4;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif;
+    }
+
+    .slide {
+      display: none;
+      height: 100vh;
+      padding: 48px 56px 72px;
+      gap: 32px;
+    }
+
+    .slide.active {
+      display: flex;
+    }
+
+    .slide-title {
+      flex-direction: column;
+      align-items: center;
+      justify-content: center;
+      text-align: center;
+    }
+
+    .slide-title h1 {
+      font-size: 56px;
+    }
+
+    .subtitle {
+      margin-top: 16px;
+      color: #9d9d9d;
+      font-size: 20px;
+    }
+
+    .slide-general .notes {
+      max-width: 960px;
+      margin: 0 auto;
+      font-size: 24px;
+    }
+
+    .notes {
+      flex: 1;
+      overflow-y: auto;
+      font-size: 20px;
+      line-height: 1.6;
+    }
+
+    .notes h1, .notes h2, .notes h3 {
+      margin: 0.6em 0 0.4em;
+    }
+
+    .notes p, .notes ul, .notes ol, .notes pre, .notes table {
+      margin-bottom: 0.8em;
+    }
+
+    .notes ul, .notes ol {
+      padding-left: 1.5em;
+    }
+
+    .notes code {
+      font-family: Menlo, Consolas, 'Courier New', monospace;
+      background-color: rgba(255, 255, 255, 0.08);
+      padding: 1px 4px;
+      border-radius: 3px;
+    }
+
+    .notes pre code {
+      display: block;
+      padding: 12px;
+    }
+
+    .notes a {
+      color: #3794ff;
+    }
+
+    .code-panel {
+      flex: 1.4;
+      overflow-y: auto;
+    }
+
+    .code-file + .code-file {
+      margin-top: 24px;
+    }
+
+    .file-name {
+      margin-bottom: 8px;
+      color: #9d9d9d;
+      font-size: 14px;
+      font-family: Menlo, Consolas, 'Courier New', monospace;
+    }
+
+    .code {
+      font-family: Menlo, Consolas, 'Courier New', monospace;
+      font-size: 15px;
+      line-height: 1.5;
+    }
+
+    .line {
+      display: block;
+      padding: 0 8px;
+      white-space: pre;
+    }
+
+    .line.dimmed {
+      opacity: ${style.dimEnabled ? style.dimOpacity : 1};
+    }
+
+${getEmphasisCss(style)}
+
+    .range-label {
+      margin-left: 16px;
+      color: #9d9d9d;
+      font-style: italic;
+      font-weight: normal;
+    }
+
+    .line-number {
+      display: inline-block;
+      margin-right: 16px;
+      color: #858585;
+      user-select: none;
+    }
+
+    .elision {
+      padding: 4px 8px;
+      color: #858585;
+    }
+
+    .warning {
+      color: #cca700;
+    }
+
+    .hljs-keyword, .hljs-selector-tag, .hljs-literal, .hljs-built_in, .hljs-type { color: #569cd6; }
+    .hljs-string, .hljs-regexp, .hljs-template-string { color: #ce9178; }
+    .hljs-comment, .hljs-quote { color: #6a9955; font-style: italic; }
+    .hljs-number { color: #b5cea8; }
+    .hljs-title, .hljs-title.function_, .hljs-section { color: #dcdcaa; }
+    .hljs-title.class_, .hljs-class .hljs-title { color: #4ec9b0; }
+    .hljs-attr, .hljs-attribute, .hljs-variable, .hljs-params, .hljs-property { color: #9cdcfe; }
+    .hljs-tag, .hljs-name, .hljs-meta { color: #569cd6; }
+    .hljs-symbol, .hljs-bullet, .hljs-link { color: #d7ba7d; }
+
+    .navigation {
+      position: fixed;
+      right: 24px;
+      bottom: 16px;
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      color: #9d9d9d;
+      font-size: 14px;
+    }
+
+    .navigation button {
+      padding: 4px 12px;
+      border: 1px solid #3c3c3c;
+      border-radius: 2px;
+      background-color: #2d2d2d;
+      color: #d4d4d4;
+      cursor: pointer;
+    }
+  </style>
+</head>
+<body>
+  ${slides.join('\n  ')}
+  <div class="navigation">
+    <button id="prev-button" title="Previous (←)">←</button>
+    <span id="counter"></span>
+    <button id="next-button" title="Next (→)">→</button>
+  </div>
+  <script>
+    const slides = document.querySelectorAll('.slide');
+    const counter = document.getElementById('counter');
+    let current = 0;
+
+    function show(index) {
+      current = Math.max(0, Math.min(index, slides.length - 1));
+      slides.forEach((slide, i) => slide.classList.toggle('active', i === current));
+      counter.textContent = (current + 1) + ' / ' + slides.length;
+      history.replaceState(null, '', '#' + (current + 1));
+
+      // Scroll the first highlighted line into view, like the editor does
+      const firstHighlighted = slides[current].querySelector('.line.highlighted');
+      if (firstHighlighted) {
+        firstHighlighted.scrollIntoView({block: 'center'});
+      }
+    }
+
+    document.getElementById('prev-button').addEventListener('click', () => show(current - 1));
+    document.getElementById('next-button').addEventListener('click', () => show(current + 1));
+
+    document.addEventListener('keydown', (event) => {
+      if (event.key === 'ArrowRight' || event.key === 'PageDown' || event.key === ' ') {
+        event.preventDefault();
+        show(current + 1);
+      } else if (event.key === 'ArrowLeft' || event.key === 'PageUp') {
+        event.preventDefault();
+        show(current - 1);
+      } else if (event.key === 'Home') {
+        show(0);
+      } else if (event.key === 'End') {
+        show(slides.length - 1);
+      }
+    });
+
+    show((parseInt(location.hash.slice(1)) || 1) - 1);
+  </script>
+</body>
+</html>
+`;
+}
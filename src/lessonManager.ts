@@ -1,25 +1,72 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import {Lesson, LessonsMasterState, LessonSummary} from './types';
+import {
+  DeletedLessonEntry,
+  DeletedNoteEntry,
+  LectureNote,
+  Lesson,
+  LessonDetails,
+  LessonsMasterState,
+  LessonSummary,
+  TrashEntry,
+} from './types';
+import {formatJsonPath} from './jsonLocation';
+import {getLessonTooltip, normalizeLessonDetails} from './lessonDetails';
+import {lessonFileDiagnostics} from './lessonFileDiagnostics';
+import {LESSONS_FORMAT_VERSION, LessonFileError, parseLesson, parseMasterState, parseTrashEntry} from './lessonSchema';
+import {FileLock, removeLeftoverTempFiles, writeFileAtomically, writeFilesAtomically} from './lessonStorage';
 import {logger} from './logger';
+import {getLessonsFolder} from './workspaceFolders';
+
+// Delay before reporting changes made on disk, so that a git pull touching many files fires one event
+const EXTERNAL_CHANGE_DELAY_MS = 100;
+// Priority of the active lesson item in the status bar, other review items are placed next to it
+export const LESSON_STATUS_BAR_PRIORITY = 100;
+
+/**
+ * What changed in the lesson files, sent with onDidChangeLessons
+ */
+export interface LessonsChangeEvent {
+  external: boolean; // The files were changed outside the extension (git pull, a teammate's edit, a manual fix)
+  masterStateChanged: boolean; // lessons.json was saved
+  changedLessonIds: number[]; // Lesson files created or saved
+  deletedLessonIds: number[]; // Lesson files deleted
+}
 
 class LessonManager {
   private masterStatePath: string | undefined;
   private lessonsDir: string | undefined;
   private statusBarItem: vscode.StatusBarItem | undefined;
+  // Coordinates changes to the lesson files between the VS Code windows open on the workspace
+  private lock: FileLock | undefined;
+
+  // Content of the lesson files as last written by the extension (null when deleted), keyed by path, used to
+  // tell the watcher events of our own writes from changes made outside the extension
+  private readonly knownContents = new Map<string, string | null>();
+  private readonly pendingExternalChanges = new Map<string, string | null>();
+  private externalChangeTimer: NodeJS.Timeout | undefined;
+  private watcher: vscode.FileSystemWatcher | undefined;
+
+  // Validation error of lessons.json from its last load, changes are refused while it is set
+  private masterStateError: Error | undefined;
+  // Content of invalid files whose problems were already reported, keyed by path
+  private readonly reportedContents = new Map<string, string>();
+
+  private readonly _onDidChangeLessons = new vscode.EventEmitter<LessonsChangeEvent>();
+  // Fired whenever the master state or a lesson file is saved, by the extension or on disk
+  readonly onDidChangeLessons = this._onDidChangeLessons.event;
 
   /**
    * Initialize the lesson manager with workspace paths
    */
   initialize(): void {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder) {
-      throw new Error('No workspace folder found');
-    }
-
+    const workspaceFolder = getLessonsFolder();
     const vscodeDir = path.join(workspaceFolder.uri.fsPath, '.vscode');
-    this.masterStatePath = path.join(vscodeDir, 'lessons.json');
+    const masterStatePath = path.join(vscodeDir, 'lessons.json');
+    // In a multi-root workspace, another folder may have been chosen to host the lessons
+    const lessonsFolderChanged = this.masterStatePath !== undefined && this.masterStatePath !== masterStatePath;
+    this.masterStatePath = masterStatePath;
     this.lessonsDir = path.join(vscodeDir, 'lessons');
 
     // Ensure .vscode directory exists
@@ -32,9 +79,16 @@ class LessonManager {
       fs.mkdirSync(this.lessonsDir, {recursive: true});
     }
 
+    if (!this.lock || lessonsFolderChanged) {
+      this.lock = new FileLock(path.join(this.lessonsDir, '.lock'));
+    }
+
     // Initialize status bar item if not already created
     if (!this.statusBarItem) {
-      this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+      this.statusBarItem = vscode.window.createStatusBarItem(
+        vscode.StatusBarAlignment.Right,
+        LESSON_STATUS_BAR_PRIORITY
+      );
       this.statusBarItem.command = 'code-highlight.setActiveLesson';
       // Update status bar to show active lesson from lessons.json (or "No active lesson" if none)
       this.updateStatusBar();
@@ -42,6 +96,31 @@ class LessonManager {
       // Update status bar even if it already exists
       this.updateStatusBar();
     }
+
+    if (lessonsFolderChanged) {
+      this.switchLessonsFolder(workspaceFolder);
+    }
+  }
+
+  /**
+   * Start over with the lesson files of another workspace folder: watch them instead of the previous ones and
+   * report them as changed
+   */
+  private switchLessonsFolder(workspaceFolder: vscode.WorkspaceFolder): void {
+    logger.info(`Lessons are now stored in the workspace folder ${workspaceFolder.name}`);
+    this.knownContents.clear();
+    this.pendingExternalChanges.clear();
+    clearTimeout(this.externalChangeTimer);
+    if (this.watcher) {
+      this.watchLessonsFolder();
+    }
+
+    this._onDidChangeLessons.fire({
+      external: true,
+      masterStateChanged: true,
+      changedLessonIds: this.getAllLessons().map(lesson => lesson.id),
+      deletedLessonIds: [],
+    });
   }
 
   /**
@@ -64,40 +143,206 @@ class LessonManager {
     return this.lessonsDir!;
   }
 
+  /**
+   * Run a change to the lesson files while holding the lock, so that other windows do not change them meanwhile
+   */
+  private async withLock<T>(change: () => T): Promise<T> {
+    this.initialize();
+    return this.lock!.run(change);
+  }
+
   /**
    * Load the master state file
    */
   private loadMasterState(): LessonsMasterState {
-    const statePath = this.getMasterStatePath();
-
-    if (!fs.existsSync(statePath)) {
+    try {
+      const state = this.readLessonsFile(this.getMasterStatePath(), content =>
+        parseMasterState(this.getMasterStatePath(), content)
+      );
+      this.masterStateError = undefined;
       // Return default state if file doesn't exist
-      return {
-        activeLessonId: null,
-        lessons: [],
-      };
+      return state ?? {version: LESSONS_FORMAT_VERSION, activeLessonId: null, lessons: []};
+    } catch (error) {
+      // If the file is invalid, show no lessons; changes are refused until it is fixed so it is not overwritten
+      this.masterStateError = error instanceof Error ? error : new Error(String(error));
+      return {version: LESSONS_FORMAT_VERSION, activeLessonId: null, lessons: []};
+    }
+  }
+
+  /**
+   * Load the master state file in order to change it, throwing if it is invalid
+   */
+  private loadMasterStateForUpdate(): LessonsMasterState {
+    const state = this.loadMasterState();
+    if (this.masterStateError) {
+      throw new Error(
+        `${this.masterStateError.message}. Fix the file (see the Problems panel) before changing lessons.`
+      );
+    }
+    return state;
+  }
+
+  /**
+   * Read a lesson file or lessons.json, null if it does not exist. Problems of invalid files are logged once
+   * per content and shown in the Problems panel until the file is fixed.
+   */
+  private readLessonsFile<T>(filePath: string, parse: (content: string) => T): T | null {
+    if (!fs.existsSync(filePath)) {
+      this.clearFileProblems(filePath);
+      return null;
     }
 
+    const content = fs.readFileSync(filePath, 'utf-8');
     try {
-      const content = fs.readFileSync(statePath, 'utf-8');
-      return JSON.parse(content) as LessonsMasterState;
+      const data = parse(content);
+      this.clearFileProblems(filePath);
+      return data;
     } catch (error) {
-      // If file is corrupted, return default state
-      logger.error('Error loading master state', error);
-      return {
-        activeLessonId: null,
-        lessons: [],
-      };
+      if (error instanceof LessonFileError && this.reportedContents.get(filePath) !== content) {
+        this.reportedContents.set(filePath, content);
+        logger.error(
+          `Invalid lesson file ${filePath}`,
+          error.issues.map(issue => `${formatJsonPath(issue.path)}: ${issue.message}`).join('\n  ')
+        );
+        lessonFileDiagnostics.report(error, content);
+      }
+      throw error;
+    }
+  }
+
+  private clearFileProblems(filePath: string): void {
+    if (this.reportedContents.delete(filePath)) {
+      lessonFileDiagnostics.clear(filePath);
     }
   }
 
+  /**
+   * Read a lesson file, null if it does not exist; throws if the file is invalid
+   */
+  private readLesson(id: number): Lesson | null {
+    const lessonPath = path.join(this.getLessonsDir(), `lesson-${id}.json`);
+    return this.readLessonsFile(lessonPath, content => parseLesson(lessonPath, content, id));
+  }
+
   /**
    * Save the master state file
    */
   private saveMasterState(state: LessonsMasterState): void {
-    const statePath = this.getMasterStatePath();
-    fs.writeFileSync(statePath, JSON.stringify(state, null, 2), 'utf-8');
+    this.writeJsonFile(this.getMasterStatePath(), state);
+    this.updateStatusBar();
+    this.fireChange({masterStateChanged: true});
+  }
+
+  /**
+   * Write a lesson or master state file, remembering its content to ignore the watcher event it causes
+   */
+  private writeJsonFile(filePath: string, data: unknown): void {
+    const content = JSON.stringify(data, null, 2);
+    writeFileAtomically(filePath, content);
+    this.knownContents.set(vscode.Uri.file(filePath).fsPath, content);
+  }
+
+  /**
+   * Delete a lesson file, remembering it to ignore the watcher event it causes
+   */
+  private deleteLessonFile(id: number): void {
+    const lessonPath = path.join(this.getLessonsDir(), `lesson-${id}.json`);
+    fs.rmSync(lessonPath, {force: true});
+    this.knownContents.set(vscode.Uri.file(lessonPath).fsPath, null);
+  }
+
+  /**
+   * Fire onDidChangeLessons for a change made by the extension
+   */
+  private fireChange(change: Partial<Omit<LessonsChangeEvent, 'external'>>): void {
+    this._onDidChangeLessons.fire({
+      external: false,
+      masterStateChanged: false,
+      changedLessonIds: [],
+      deletedLessonIds: [],
+      ...change,
+    });
+  }
+
+  /**
+   * Watch the lesson files for changes made outside the extension and report them through onDidChangeLessons
+   */
+  startWatching(): vscode.Disposable {
+    this.watchLessonsFolder();
+
+    return {
+      dispose: () => {
+        this.watcher?.dispose();
+        this.watcher = undefined;
+        clearTimeout(this.externalChangeTimer);
+        this.pendingExternalChanges.clear();
+      },
+    };
+  }
+
+  /**
+   * (Re)create the watcher of the lesson files in the folder hosting the lessons
+   */
+  private watchLessonsFolder(): void {
+    this.watcher?.dispose();
+
+    const vscodeDir = path.dirname(this.getMasterStatePath());
+    this.watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(vscodeDir, '{lessons.json,lessons/lesson-*.json}')
+    );
+
+    const onFileEvent = (uri: vscode.Uri) => this.handleFileEvent(uri.fsPath);
+    this.watcher.onDidCreate(onFileEvent);
+    this.watcher.onDidChange(onFileEvent);
+    this.watcher.onDidDelete(onFileEvent);
+  }
+
+  /**
+   * Queue a watched file for reporting unless its content is what the extension itself last wrote
+   */
+  private handleFileEvent(filePath: string): void {
+    let content: string | null = null;
+    try {
+      content = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null;
+    } catch (error) {
+      logger.error(`Error reading changed lesson file ${filePath}`, error);
+    }
+
+    if (this.knownContents.get(filePath) === content) {
+      return;
+    }
+    this.knownContents.set(filePath, content);
+    this.pendingExternalChanges.set(filePath, content);
+
+    clearTimeout(this.externalChangeTimer);
+    this.externalChangeTimer = setTimeout(() => this.flushExternalChanges(), EXTERNAL_CHANGE_DELAY_MS);
+  }
+
+  /**
+   * Report the queued changes made outside the extension in one event
+   */
+  private flushExternalChanges(): void {
+    const event: LessonsChangeEvent = {
+      external: true,
+      masterStateChanged: false,
+      changedLessonIds: [],
+      deletedLessonIds: [],
+    };
+
+    for (const [filePath, content] of this.pendingExternalChanges) {
+      const fileName = path.basename(filePath);
+      const lessonMatch = /^lesson-(\d+)\.json$/.exec(fileName);
+      if (fileName === 'lessons.json') {
+        event.masterStateChanged = true;
+      } else if (lessonMatch) {
+        (content === null ? event.deletedLessonIds : event.changedLessonIds).push(Number(lessonMatch[1]));
+      }
+    }
+    this.pendingExternalChanges.clear();
+
+    logger.info(`Lesson files changed on disk: ${JSON.stringify(event)}`);
     this.updateStatusBar();
+    this._onDidChangeLessons.fire(event);
   }
 
   /**
@@ -111,7 +356,7 @@ class LessonManager {
     const activeLesson = this.getActiveLessonWithoutUpdate();
     if (activeLesson) {
       this.statusBarItem.text = `$(book) Lesson: ${activeLesson.title}`;
-      this.statusBarItem.tooltip = `Active lesson: ${activeLesson.title}`;
+      this.statusBarItem.tooltip = getLessonTooltip(activeLesson, 'Active lesson');
       this.statusBarItem.show();
     } else {
       this.statusBarItem.text = '$(book) No active lesson';
@@ -129,62 +374,59 @@ class LessonManager {
       return null;
     }
 
-    const lessonPath = path.join(this.getLessonsDir(), `lesson-${state.activeLessonId}.json`);
-    if (!fs.existsSync(lessonPath)) {
-      return null;
-    }
-
     try {
-      const content = fs.readFileSync(lessonPath, 'utf-8');
-      return JSON.parse(content) as Lesson;
+      return this.readLesson(state.activeLessonId);
     } catch (error) {
-      logger.error(`Error loading lesson ${state.activeLessonId}`, error);
+      // Invalid lesson files are reported by readLesson
       return null;
     }
   }
 
   /**
-   * Get the next available lesson ID
+   * Get the next available lesson ID (IDs of lessons in the trash are not reused)
    */
   private getNextLessonId(): number {
     const state = this.loadMasterState();
-    if (state.lessons.length === 0) {
+    const ids = [
+      ...state.lessons.map(l => l.id),
+      ...this.getTrashEntries().flatMap(entry => (entry.kind === 'lesson' ? [entry.lesson.id] : [])),
+    ];
+    if (ids.length === 0) {
       return 1;
     }
     // Find the highest ID and increment
-    const maxId = Math.max(...state.lessons.map(l => l.id));
-    return maxId + 1;
+    return Math.max(...ids) + 1;
   }
 
   /**
    * Create a new lesson
    */
-  createLesson(title: string): Lesson {
-    this.initialize();
-
-    const state = this.loadMasterState();
-    const newId = this.getNextLessonId();
+  async createLesson(title: string): Promise<Lesson> {
+    return this.withLock(() => {
+      const state = this.loadMasterStateForUpdate();
+      const newId = this.getNextLessonId();
 
-    // Create the lesson object
-    const lesson: Lesson = {
-      id: newId,
-      title: title.trim(),
-      notes: [],
-    };
+      // Create the lesson object
+      const now = new Date().toISOString();
+      const lesson: Lesson = {
+        version: LESSONS_FORMAT_VERSION,
+        id: newId,
+        title: title.trim(),
+        notes: [],
+        createdAt: now,
+        updatedAt: now,
+      };
 
-    // Save the lesson file
-    const lessonPath = path.join(this.getLessonsDir(), `lesson-${newId}.json`);
-    fs.writeFileSync(lessonPath, JSON.stringify(lesson, null, 2), 'utf-8');
+      // Save the lesson file and the master state together
+      state.lessons.push({
+        id: newId,
+        title: lesson.title,
+      });
+      state.activeLessonId = newId;
+      this.saveLessonsWithState([lesson], state);
 
-    // Update master state
-    state.lessons.push({
-      id: newId,
-      title: lesson.title,
+      return lesson;
     });
-    state.activeLessonId = newId;
-    this.saveMasterState(state);
-
-    return lesson;
   }
 
   /**
@@ -205,23 +447,23 @@ class LessonManager {
     return lesson;
   }
 
+  /**
+   * Get the ID of the active lesson without loading the lesson itself
+   */
+  getActiveLessonId(): number | null {
+    return this.loadMasterState().activeLessonId;
+  }
+
   /**
    * Get a lesson by ID
    */
   getLessonById(id: number): Lesson | null {
     this.initialize();
 
-    const lessonPath = path.join(this.getLessonsDir(), `lesson-${id}.json`);
-
-    if (!fs.existsSync(lessonPath)) {
-      return null;
-    }
-
     try {
-      const content = fs.readFileSync(lessonPath, 'utf-8');
-      return JSON.parse(content) as Lesson;
+      return this.readLesson(id);
     } catch (error) {
-      logger.error(`Error loading lesson ${id}`, error);
+      // Invalid lesson files are reported by readLesson
       return null;
     }
   }
@@ -237,58 +479,647 @@ class LessonManager {
   /**
    * Set the active lesson
    */
-  setActiveLesson(id: number): void {
+  async setActiveLesson(id: number): Promise<void> {
+    await this.withLock(() => {
+      const state = this.loadMasterStateForUpdate();
+      // Verify lesson exists
+      if (!state.lessons.find(l => l.id === id)) {
+        throw new Error(`Lesson with ID ${id} does not exist`);
+      }
+
+      state.activeLessonId = id;
+      this.saveMasterState(state);
+    });
+  }
+
+  /**
+   * Save a lesson to disk
+   */
+  async saveLesson(lesson: Lesson): Promise<void> {
+    await this.withLock(() => this.writeLesson(lesson));
+  }
+
+  /**
+   * Write a lesson file; only call this while holding the lock
+   */
+  private writeLesson(lesson: Lesson): void {
+    lesson.updatedAt = new Date().toISOString();
+    this.writeJsonFile(path.join(this.getLessonsDir(), `lesson-${lesson.id}.json`), lesson);
+    this.fireChange({changedLessonIds: [lesson.id]});
+  }
+
+  /**
+   * Rename a lesson (updates both the lesson file and the master state, or neither)
+   */
+  async renameLesson(id: number, title: string): Promise<void> {
+    await this.withLock(() => {
+      const trimmedTitle = this.validateTitle(title);
+      const {state, summary, lesson} = this.getLessonWithSummary(id);
+
+      lesson.title = trimmedTitle;
+      summary.title = trimmedTitle;
+      this.saveLessonsWithState([lesson], state);
+    });
+  }
+
+  /**
+   * Update the title and metadata of a lesson; empty details are removed from the lesson
+   */
+  async updateLessonDetails(id: number, title: string, details: LessonDetails): Promise<void> {
+    await this.withLock(() => {
+      const trimmedTitle = this.validateTitle(title);
+      const {state, summary, lesson} = this.getLessonWithSummary(id);
+      const normalizedDetails = normalizeLessonDetails(details);
+
+      lesson.title = trimmedTitle;
+      summary.title = trimmedTitle;
+      applyLessonDetails(lesson, normalizedDetails);
+      applyLessonDetails(summary, normalizedDetails);
+      this.saveLessonsWithState([lesson], state);
+    });
+  }
+
+  /**
+   * Trim a lesson title, throwing if it is empty
+   */
+  private validateTitle(title: string): string {
+    const trimmedTitle = title.trim();
+    if (trimmedTitle.length === 0) {
+      throw new Error('Lesson title cannot be empty');
+    }
+    return trimmedTitle;
+  }
+
+  /**
+   * Load a lesson together with the master state and its summary in it
+   */
+  private getLessonWithSummary(id: number): {state: LessonsMasterState; summary: LessonSummary; lesson: Lesson} {
     this.initialize();
 
-    const state = this.loadMasterState();
-    // Verify lesson exists
-    if (!state.lessons.find(l => l.id === id)) {
+    const state = this.loadMasterStateForUpdate();
+    const summary = state.lessons.find(l => l.id === id);
+    if (!summary) {
       throw new Error(`Lesson with ID ${id} does not exist`);
     }
+    return {state, summary, lesson: this.getLessonOrThrow(id)};
+  }
+
+  /**
+   * Save lesson files and the master state together, so that they never disagree about the lessons,
+   * then delete the files of lessons the master state no longer references
+   */
+  private saveLessonsWithState(lessons: Lesson[], state: LessonsMasterState, deletedLessonIds: number[] = []): void {
+    const now = new Date().toISOString();
+    const lessonFiles = lessons.map(lesson => {
+      lesson.updatedAt = now;
+      return {
+        filePath: path.join(this.getLessonsDir(), `lesson-${lesson.id}.json`),
+        content: JSON.stringify(lesson, null, 2),
+      };
+    });
+
+    const stateFile = {filePath: this.getMasterStatePath(), content: JSON.stringify(state, null, 2)};
+    writeFilesAtomically([...lessonFiles, stateFile]);
+    for (const {filePath, content} of [...lessonFiles, stateFile]) {
+      this.knownContents.set(vscode.Uri.file(filePath).fsPath, content);
+    }
+
+    for (const id of deletedLessonIds) {
+      try {
+        this.deleteLessonFile(id);
+      } catch (error) {
+        logger.error(`Failed to delete the file of lesson ${id}`, error);
+      }
+    }
 
-    state.activeLessonId = id;
-    this.saveMasterState(state);
+    this.updateStatusBar();
+    this.fireChange({
+      masterStateChanged: true,
+      changedLessonIds: lessons.map(lesson => lesson.id),
+      deletedLessonIds,
+    });
   }
 
   /**
-   * Save a lesson to disk
+   * Repair what an interrupted save (a crash, or a window closed mid-write) can leave behind: temporary files,
+   * lesson files missing from lessons.json, lessons.json entries without lesson file, out-of-date summaries and an
+   * active lesson that does not exist.
+   * Returns a description of each repair.
    */
-  saveLesson(lesson: Lesson): void {
-    this.initialize();
+  async checkConsistency(): Promise<string[]> {
+    return this.withLock(() => {
+      const repairs: string[] = [];
+      const lessonsDir = this.getLessonsDir();
+      for (const dir of [path.dirname(this.getMasterStatePath()), lessonsDir, this.getTrashDir()]) {
+        for (const name of removeLeftoverTempFiles(dir)) {
+          repairs.push(`Removed the temporary file ${name}`);
+        }
+      }
+
+      const state = this.loadMasterState();
+      if (this.masterStateError) {
+        // Reported in the Problems panel, the user has to fix it
+        return repairs;
+      }
+
+      const lessonFileIds = fs
+        .readdirSync(lessonsDir)
+        .map(name => /^lesson-(\d+)\.json$/.exec(name))
+        .flatMap(match => (match ? [Number(match[1])] : []))
+        .sort((a, b) => a - b);
+      const trashedLessonIds = new Set(
+        this.getTrashEntries().flatMap(entry => (entry.kind === 'lesson' ? [entry.lesson.id] : []))
+      );
+      const deletedLessonIds: number[] = [];
+      let stateChanged = false;
+
+      for (const summary of [...state.lessons]) {
+        if (!lessonFileIds.includes(summary.id)) {
+          state.lessons.splice(state.lessons.indexOf(summary), 1);
+          stateChanged = true;
+          repairs.push(`Removed lesson ${summary.id} "${summary.title}" from lessons.json, its file is missing`);
+        }
+      }
+
+      for (const id of lessonFileIds) {
+        let lesson: Lesson | null;
+        try {
+          lesson = this.readLesson(id);
+        } catch (error) {
+          // Invalid lesson files are reported by readLesson
+          continue;
+        }
+        if (!lesson) {
+          continue;
+        }
+
+        const summaryIndex = state.lessons.findIndex(l => l.id === id);
+        const summary = createLessonSummary(lesson);
+        if (summaryIndex !== -1) {
+          if (JSON.stringify(createLessonSummary(state.lessons[summaryIndex])) !== JSON.stringify(summary)) {
+            state.lessons[summaryIndex] = summary;
+            stateChanged = true;
+            repairs.push(`Updated the summary of lesson ${id} "${lesson.title}" in lessons.json from its file`);
+          }
+        } else if (trashedLessonIds.has(id)) {
+          // The lesson was deleted but removing its file was interrupted
+          deletedLessonIds.push(id);
+          repairs.push(`Deleted the file of lesson ${id} "${lesson.title}", the lesson is in the trash`);
+        } else {
+          state.lessons.push(summary);
+          stateChanged = true;
+          repairs.push(`Added lesson ${id} "${lesson.title}" to lessons.json, it was missing`);
+        }
+      }
+
+      if (state.activeLessonId !== null && !state.lessons.some(l => l.id === state.activeLessonId)) {
+        const missingId = state.activeLessonId;
+        state.activeLessonId = state.lessons.length > 0 ? state.lessons[0].id : null;
+        stateChanged = true;
+        repairs.push(
+          state.activeLessonId === null
+            ? `Cleared the active lesson, lesson ${missingId} does not exist`
+            : `Made lesson ${state.activeLessonId} the active lesson, lesson ${missingId} does not exist`
+        );
+      }
+
+      if (stateChanged) {
+        this.saveMasterState(state);
+      }
+      for (const id of deletedLessonIds) {
+        this.deleteLessonFile(id);
+      }
+      if (deletedLessonIds.length > 0) {
+        this.fireChange({deletedLessonIds});
+      }
 
-    const lessonPath = path.join(this.getLessonsDir(), `lesson-${lesson.id}.json`);
-    fs.writeFileSync(lessonPath, JSON.stringify(lesson, null, 2), 'utf-8');
+      for (const repair of repairs) {
+        logger.warn(`Lesson files: ${repair}`);
+      }
+      return repairs;
+    });
   }
 
   /**
-   * Delete a lesson
+   * Move a lesson to a new position in the list of lessons
    */
-  deleteLesson(id: number): void {
-    this.initialize();
+  async moveLesson(id: number, toIndex: number): Promise<void> {
+    await this.withLock(() => {
+      const state = this.loadMasterStateForUpdate();
+      const fromIndex = state.lessons.findIndex(l => l.id === id);
+      if (fromIndex === -1) {
+        throw new Error(`Lesson with ID ${id} does not exist`);
+      }
+      if (!Number.isInteger(toIndex) || toIndex < 0 || toIndex >= state.lessons.length) {
+        throw new Error(`Position ${toIndex + 1} is out of range`);
+      }
 
-    const state = this.loadMasterState();
-    const lessonIndex = state.lessons.findIndex(l => l.id === id);
+      if (fromIndex === toIndex) {
+        return;
+      }
+
+      const [summary] = state.lessons.splice(fromIndex, 1);
+      state.lessons.splice(toIndex, 0, summary);
+      this.saveMasterState(state);
+    });
+  }
+
+  /**
+   * Copy a lesson with all its notes and details into a new lesson placed right after it
+   */
+  async duplicateLesson(id: number, title: string): Promise<Lesson> {
+    return this.withLock(() => {
+      const trimmedTitle = this.validateTitle(title);
+      const {state, summary, lesson} = this.getLessonWithSummary(id);
+
+      const copy: Lesson = {
+        ...structuredClone(lesson),
+        id: this.getNextLessonId(),
+        title: trimmedTitle,
+        createdAt: new Date().toISOString(),
+      };
+
+      this.insertSummaryAfter(state, summary, copy);
+      this.saveLessonsWithState([copy], state);
+      return copy;
+    });
+  }
+
+  /**
+   * Split a lesson in two: the notes from the given index on are moved to a new lesson placed right
+   * after it
+   */
+  async splitLesson(id: number, noteIndex: number, title: string): Promise<Lesson> {
+    return this.withLock(() => {
+      const trimmedTitle = this.validateTitle(title);
+      const {state, summary, lesson} = this.getLessonWithSummary(id);
+      this.assertNoteIndex(lesson, noteIndex);
+      if (noteIndex === 0) {
+        throw new Error('Cannot split a lesson at its first note');
+      }
+
+      const now = new Date().toISOString();
+      const secondPart: Lesson = {
+        ...structuredClone(lesson),
+        id: this.getNextLessonId(),
+        title: trimmedTitle,
+        notes: lesson.notes.slice(noteIndex),
+        createdAt: now,
+      };
+      lesson.notes = lesson.notes.slice(0, noteIndex);
+
+      this.insertSummaryAfter(state, summary, secondPart);
+      this.saveLessonsWithState([lesson, secondPart], state);
+      return secondPart;
+    });
+  }
+
+  /**
+   * Append the notes of one lesson to another and move the merged lesson to the trash
+   */
+  async mergeLessons(targetId: number, sourceId: number): Promise<Lesson> {
+    return this.withLock(() => {
+      if (targetId === sourceId) {
+        throw new Error('Cannot merge a lesson into itself');
+      }
+
+      const {state, lesson: target} = this.getLessonWithSummary(targetId);
+      const source = this.getLessonOrThrow(sourceId);
+      const sourceIndex = state.lessons.findIndex(l => l.id === sourceId);
+      if (sourceIndex === -1) {
+        throw new Error(`Lesson with ID ${sourceId} does not exist`);
+      }
+
+      // Keep the merged lesson in the trash, which also keeps its ID from being reused
+      this.moveToTrash<DeletedLessonEntry>(`lesson-${sourceId}`, {
+        kind: 'lesson',
+        position: sourceIndex,
+        wasActive: state.activeLessonId === sourceId,
+        mergedInto: targetId,
+        lesson: source,
+      });
+
+      target.notes.push(...source.notes);
+      state.lessons.splice(sourceIndex, 1);
+      if (state.activeLessonId === sourceId) {
+        state.activeLessonId = targetId;
+      }
+      this.saveLessonsWithState([target], state, [sourceId]);
+      return target;
+    });
+  }
+
+  /**
+   * Add the summary of a new lesson to the master state, right after an existing lesson
+   */
+  private insertSummaryAfter(state: LessonsMasterState, after: LessonSummary, lesson: Lesson): void {
+    state.lessons.splice(state.lessons.indexOf(after) + 1, 0, createLessonSummary(lesson));
+  }
+
+  /**
+   * Append notes to the end of a lesson
+   */
+  async addNotes(lessonId: number, notes: LectureNote[]): Promise<void> {
+    await this.withLock(() => {
+      const lesson = this.getLessonOrThrow(lessonId);
+      lesson.notes.push(...notes);
+      this.writeLesson(lesson);
+    });
+  }
+
+  /**
+   * Replace the note at the given index in a lesson
+   */
+  async updateNote(lessonId: number, noteIndex: number, note: LectureNote): Promise<void> {
+    await this.withLock(() => {
+      const lesson = this.getLessonOrThrow(lessonId);
+      this.assertNoteIndex(lesson, noteIndex);
+
+      lesson.notes[noteIndex] = note;
+      this.writeLesson(lesson);
+    });
+  }
+
+  /**
+   * Delete the note at the given index from a lesson, moving it to the trash
+   */
+  async deleteNote(lessonId: number, noteIndex: number): Promise<DeletedNoteEntry> {
+    return this.withLock(() => {
+      const lesson = this.getLessonOrThrow(lessonId);
+      this.assertNoteIndex(lesson, noteIndex);
+
+      const [deletedNote] = lesson.notes.splice(noteIndex, 1);
+      const entry = this.moveToTrash<DeletedNoteEntry>(`note-${lessonId}`, {
+        kind: 'note',
+        lessonId,
+        lessonTitle: lesson.title,
+        lessonCreatedAt: lesson.createdAt,
+        noteIndex,
+        note: deletedNote,
+      });
+      this.writeLesson(lesson);
+      return entry;
+    });
+  }
+
+  /**
+   * Move a note to a new position within a lesson
+   */
+  async moveNote(lessonId: number, fromIndex: number, toIndex: number): Promise<void> {
+    await this.withLock(() => {
+      const lesson = this.getLessonOrThrow(lessonId);
+      this.assertNoteIndex(lesson, fromIndex);
+      this.assertNoteIndex(lesson, toIndex);
+
+      if (fromIndex === toIndex) {
+        return;
+      }
+
+      const [note] = lesson.notes.splice(fromIndex, 1);
+      lesson.notes.splice(toIndex, 0, note);
+      this.writeLesson(lesson);
+    });
+  }
+
+  /**
+   * Get a lesson by ID or throw if it does not exist
+   */
+  private getLessonOrThrow(id: number): Lesson {
+    this.initialize();
 
-    if (lessonIndex === -1) {
+    // Unlike getLessonById, an invalid lesson file throws its validation error
+    const lesson = this.readLesson(id);
+    if (!lesson) {
       throw new Error(`Lesson with ID ${id} does not exist`);
     }
+    return lesson;
+  }
 
-    // Delete the lesson file
-    const lessonPath = path.join(this.getLessonsDir(), `lesson-${id}.json`);
-    if (fs.existsSync(lessonPath)) {
-      fs.unlinkSync(lessonPath);
+  /**
+   * Verify that a note index is within the bounds of a lesson
+   */
+  private assertNoteIndex(lesson: Lesson, noteIndex: number): void {
+    if (!Number.isInteger(noteIndex) || noteIndex < 0 || noteIndex >= lesson.notes.length) {
+      throw new Error(`Note ${noteIndex + 1} does not exist in lesson "${lesson.title}"`);
+    }
+  }
+
+  /**
+   * Delete a lesson, moving it to the trash
+   */
+  async deleteLesson(id: number): Promise<DeletedLessonEntry> {
+    return this.withLock(() => {
+      const state = this.loadMasterStateForUpdate();
+      const lessonIndex = state.lessons.findIndex(l => l.id === id);
+
+      if (lessonIndex === -1) {
+        throw new Error(`Lesson with ID ${id} does not exist`);
+      }
+
+      // Keep a copy of the lesson in the trash before deleting its file. An invalid lesson file throws its
+      // validation error so that its notes are not lost; a missing one has no notes to keep
+      const lesson = this.readLesson(id) ?? {...state.lessons[lessonIndex], notes: []};
+      const entry = this.moveToTrash<DeletedLessonEntry>(`lesson-${id}`, {
+        kind: 'lesson',
+        position: lessonIndex,
+        wasActive: state.activeLessonId === id,
+        lesson,
+      });
+
+      // Remove from master state
+      state.lessons.splice(lessonIndex, 1);
+
+      // If the deleted lesson was active, set activeLessonId to null or the first available lesson
+      if (state.activeLessonId === id) {
+        state.activeLessonId = state.lessons.length > 0 ? state.lessons[0].id : null;
+      }
+
+      // The lesson file is deleted after the master state is saved, so a crash leaves an orphaned file rather
+      // than a lesson without file
+      this.saveLessonsWithState([], state, [id]);
+      return entry;
+    });
+  }
+
+  /**
+   * Get the path to the trash directory inside the lessons directory
+   */
+  private getTrashDir(): string {
+    return path.join(this.getLessonsDir(), '.trash');
+  }
+
+  /**
+   * Write a trash entry; its ID starts with the deletion time so that entries sort chronologically
+   */
+  private moveToTrash<T extends TrashEntry>(name: string, entry: Omit<T, 'id' | 'deletedAt'>): T {
+    const trashDir = this.getTrashDir();
+    if (!fs.existsSync(trashDir)) {
+      fs.mkdirSync(trashDir, {recursive: true});
+    }
+
+    const deletedAt = new Date();
+    let id = `${deletedAt.getTime()}-${name}`;
+    for (let suffix = 2; fs.existsSync(path.join(trashDir, `${id}.json`)); suffix++) {
+      id = `${deletedAt.getTime()}-${name}-${suffix}`;
+    }
+
+    const trashEntry = {...entry, id, deletedAt: deletedAt.toISOString()} as T;
+    writeFileAtomically(path.join(trashDir, `${id}.json`), JSON.stringify(trashEntry, null, 2));
+    return trashEntry;
+  }
+
+  /**
+   * Get the lessons and notes in the trash, most recently deleted first
+   */
+  getTrashEntries(): TrashEntry[] {
+    const trashDir = this.getTrashDir();
+    if (!fs.existsSync(trashDir)) {
+      return [];
+    }
+
+    const entries: TrashEntry[] = [];
+    for (const fileName of fs.readdirSync(trashDir).filter(name => name.endsWith('.json'))) {
+      try {
+        const filePath = path.join(trashDir, fileName);
+        const entry = parseTrashEntry(filePath, fs.readFileSync(filePath, 'utf-8'));
+        entries.push({...entry, id: path.basename(fileName, '.json')});
+      } catch (error) {
+        // Restoring a damaged entry would write an invalid lesson, so it is left out of the trash
+        logger.warn(`Skipped the invalid trash entry ${fileName}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    return entries.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  }
+
+  /**
+   * Get a trash entry by ID or throw if it does not exist
+   */
+  private getTrashEntryOrThrow(entryId: string): TrashEntry {
+    const entry = this.getTrashEntries().find(e => e.id === entryId);
+    if (!entry) {
+      throw new Error('The deleted item is no longer in the trash');
     }
+    return entry;
+  }
+
+  /**
+   * Restore a deleted lesson to its former position (with a new ID if its ID was taken meanwhile)
+   */
+  async restoreLesson(entryId: string): Promise<Lesson> {
+    return this.withLock(() => {
+      const entry = this.getTrashEntryOrThrow(entryId);
+      if (entry.kind !== 'lesson') {
+        throw new Error('The deleted item is not a lesson');
+      }
 
-    // Remove from master state
-    state.lessons.splice(lessonIndex, 1);
+      const state = this.loadMasterStateForUpdate();
+      const lesson = entry.lesson;
+      if (state.lessons.some(l => l.id === lesson.id)) {
+        lesson.id = this.getNextLessonId();
+      }
 
-    // If the deleted lesson was active, set activeLessonId to null or the first available lesson
-    if (state.activeLessonId === id) {
-      state.activeLessonId = state.lessons.length > 0 ? state.lessons[0].id : null;
+      // Restoring a merged lesson takes its notes out of the lesson they were appended to, so that they are not
+      // duplicated. Notes changed since the merge stay in that lesson
+      const changedLessons = [lesson];
+      const mergedInto = entry.mergedInto !== undefined ? this.readLesson(entry.mergedInto) : null;
+      if (mergedInto && removeMergedNotes(mergedInto, lesson.notes)) {
+        changedLessons.push(mergedInto);
+      }
+
+      state.lessons.splice(Math.min(entry.position, state.lessons.length), 0, createLessonSummary(lesson));
+      if (entry.wasActive || state.activeLessonId === null) {
+        state.activeLessonId = lesson.id;
+      }
+
+      this.saveLessonsWithState(changedLessons, state);
+      fs.rmSync(path.join(this.getTrashDir(), `${entryId}.json`), {force: true});
+      return lesson;
+    });
+  }
+
+  /**
+   * Get the lesson a deleted note was taken from, or null if that lesson is gone. A lesson that was given the
+   * ID of the deleted lesson later on does not count.
+   */
+  getNoteEntryLesson(entry: DeletedNoteEntry): Lesson | null {
+    const lesson = this.getLessonById(entry.lessonId);
+    if (!lesson || (entry.lessonCreatedAt !== undefined && lesson.createdAt !== entry.lessonCreatedAt)) {
+      return null;
     }
+    return lesson;
+  }
+
+  /**
+   * Restore a deleted note into its lesson at its former position, or at the end of another lesson
+   */
+  async restoreNote(entryId: string, lessonId?: number): Promise<DeletedNoteEntry> {
+    return this.withLock(() => {
+      const entry = this.getTrashEntryOrThrow(entryId);
+      if (entry.kind !== 'note') {
+        throw new Error('The deleted item is not a note');
+      }
+
+      const originalLesson = this.getNoteEntryLesson(entry);
+      const lesson =
+        lessonId === undefined || lessonId === originalLesson?.id ? originalLesson : this.getLessonOrThrow(lessonId);
+      if (!lesson) {
+        throw new Error(`Lesson "${entry.lessonTitle}" no longer exists. Restore the lesson first.`);
+      }
 
-    this.saveMasterState(state);
+      const noteIndex =
+        lesson === originalLesson ? Math.min(entry.noteIndex, lesson.notes.length) : lesson.notes.length;
+      lesson.notes.splice(noteIndex, 0, entry.note);
+      this.writeLesson(lesson);
+      fs.rmSync(path.join(this.getTrashDir(), `${entryId}.json`), {force: true});
+      return {...entry, lessonId: lesson.id, lessonTitle: lesson.title, lessonCreatedAt: lesson.createdAt, noteIndex};
+    });
   }
+
+  /**
+   * Permanently delete everything in the trash, returning the number of deleted items
+   */
+  async emptyTrash(): Promise<number> {
+    return this.withLock(() => {
+      const entries = this.getTrashEntries();
+      fs.rmSync(this.getTrashDir(), {recursive: true, force: true});
+      return entries.length;
+    });
+  }
+}
+
+/**
+ * Build the master state summary of a lesson
+ */
+function createLessonSummary(lesson: LessonSummary): LessonSummary {
+  const {id, title, description, tags, estimatedMinutes} = lesson;
+  return {id, title, ...normalizeLessonDetails({description, tags, estimatedMinutes})};
+}
+
+/**
+ * Remove the notes appended to a lesson by a merge, starting from its end. Returns whether any note was removed
+ */
+function removeMergedNotes(lesson: Lesson, mergedNotes: LectureNote[]): boolean {
+  const contents = lesson.notes.map(note => JSON.stringify(note));
+  let removed = false;
+  for (const note of [...mergedNotes].reverse()) {
+    const index = contents.lastIndexOf(JSON.stringify(note));
+    if (index !== -1) {
+      lesson.notes.splice(index, 1);
+      contents.splice(index, 1);
+      removed = true;
+    }
+  }
+  return removed;
+}
+
+/**
+ * Replace the details of a lesson or lesson summary
+ */
+function applyLessonDetails(target: LessonDetails, details: LessonDetails): void {
+  delete target.description;
+  delete target.tags;
+  delete target.estimatedMinutes;
+  Object.assign(target, details);
 }
 
 // Create and export singleton instance
@@ -0,0 +1,367 @@
+import * as path from 'path';
+import {findJsonSyntaxError, formatJsonPath, JsonPath} from './jsonLocation';
+import {Lesson, LessonsMasterState, TrashEntry} from './types';
+
+/**
+ * Current format version of lessons.json and the lesson-N.json files. Bump it together with a migration below
+ * (and the JSON schemas in schemas/) when the format changes.
+ */
+export const LESSONS_FORMAT_VERSION = 1;
+
+// Migrations of each file kind, the one at index N converts a file from version N to version N + 1
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+const MASTER_STATE_MIGRATIONS: Migration[] = [
+  // 0 -> 1: files written before the format was versioned need no changes
+  data => data,
+];
+
+const LESSON_MIGRATIONS: Migration[] = [
+  // 0 -> 1: files written before the format was versioned need no changes
+  data => data,
+];
+
+const RANGE_EMPHASES = ['primary', 'secondary', 'before', 'after'];
+
+/**
+ * A problem found in a lesson file
+ */
+export interface LessonFileIssue {
+  path: JsonPath; // Where in the file the problem is
+  message: string;
+  offset?: number; // Position in the text, for JSON syntax errors
+}
+
+/**
+ * Error thrown when a lesson file cannot be read, listing every problem found in it
+ */
+export class LessonFileError extends Error {
+  constructor(
+    readonly filePath: string,
+    readonly issues: LessonFileIssue[]
+  ) {
+    const [first] = issues;
+    const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : '';
+    super(`${path.basename(filePath)} is invalid: ${formatJsonPath(first.path)}: ${first.message}${more}`);
+    this.name = 'LessonFileError';
+  }
+}
+
+/**
+ * Parse, migrate and validate the content of lessons.json
+ */
+export function parseMasterState(filePath: string, content: string): LessonsMasterState {
+  const data = migrate(filePath, parseJson(filePath, content), MASTER_STATE_MIGRATIONS);
+  const issues = validateMasterState(data);
+  if (issues.length > 0) {
+    throw new LessonFileError(filePath, issues);
+  }
+  return data as unknown as LessonsMasterState;
+}
+
+/**
+ * Parse, migrate and validate the content of a lesson-N.json file
+ */
+export function parseLesson(filePath: string, content: string, expectedId: number): Lesson {
+  const data = migrate(filePath, parseJson(filePath, content), LESSON_MIGRATIONS);
+  const issues = validateLesson(data, expectedId);
+  if (issues.length > 0) {
+    throw new LessonFileError(filePath, issues);
+  }
+  return data as unknown as Lesson;
+}
+
+/**
+ * Parse and validate a lesson or note in the trash, migrating a deleted lesson to the current format version
+ */
+export function parseTrashEntry(filePath: string, content: string): TrashEntry {
+  const data = parseJson(filePath, content);
+  const issues: LessonFileIssue[] = [];
+
+  if (typeof data.deletedAt !== 'string' || isNaN(Date.parse(data.deletedAt))) {
+    issues.push({path: ['deletedAt'], message: 'Expected an ISO timestamp'});
+  }
+
+  if (data.kind === 'lesson') {
+    if (!isIndex(data.position)) {
+      issues.push({path: ['position'], message: 'Expected a non-negative integer'});
+    }
+    if (typeof data.wasActive !== 'boolean') {
+      issues.push({path: ['wasActive'], message: 'Expected a boolean'});
+    }
+    if (data.mergedInto !== undefined) {
+      checkLessonId(data.mergedInto, ['mergedInto'], issues);
+    }
+    if (!isObject(data.lesson)) {
+      issues.push({path: ['lesson'], message: 'Expected an object'});
+    } else if (checkLessonId(data.lesson.id, ['lesson', 'id'], issues)) {
+      const lesson = migrate(filePath, data.lesson, LESSON_MIGRATIONS);
+      const lessonIssues = validateLesson(lesson, data.lesson.id);
+      issues.push(...lessonIssues.map(issue => ({...issue, path: ['lesson', ...issue.path]})));
+      data.lesson = lesson;
+    }
+  } else if (data.kind === 'note') {
+    checkLessonId(data.lessonId, ['lessonId'], issues);
+    if (typeof data.lessonTitle !== 'string') {
+      issues.push({path: ['lessonTitle'], message: 'Expected a string'});
+    }
+    if (data.lessonCreatedAt !== undefined && typeof data.lessonCreatedAt !== 'string') {
+      issues.push({path: ['lessonCreatedAt'], message: 'Expected an ISO timestamp'});
+    }
+    if (!isIndex(data.noteIndex)) {
+      issues.push({path: ['noteIndex'], message: 'Expected a non-negative integer'});
+    }
+    checkNote(data.note, ['note'], issues);
+  } else {
+    issues.push({path: ['kind'], message: 'Expected "lesson" or "note"'});
+  }
+
+  if (issues.length > 0) {
+    throw new LessonFileError(filePath, issues);
+  }
+  return data as unknown as TrashEntry;
+}
+
+function parseJson(filePath: string, content: string): Record<string, unknown> {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid JSON';
+    const position = /position (\d+)/.exec(message);
+    const offset = position ? Number(position[1]) : findJsonSyntaxError(content);
+    throw new LessonFileError(filePath, [{path: [], message, offset}]);
+  }
+
+  if (!isObject(data)) {
+    throw new LessonFileError(filePath, [{path: [], message: 'Expected an object'}]);
+  }
+  return data;
+}
+
+/**
+ * Bring data written by an older version of the extension up to the current format version
+ */
+function migrate(filePath: string, data: Record<string, unknown>, migrations: Migration[]): Record<string, unknown> {
+  const version = data.version ?? 0;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new LessonFileError(filePath, [{path: ['version'], message: 'Expected a non-negative integer'}]);
+  }
+  if (version > LESSONS_FORMAT_VERSION) {
+    throw new LessonFileError(filePath, [
+      {
+        path: ['version'],
+        message:
+          `Format version ${version} was written by a newer version of the extension ` +
+          `(supported: ${LESSONS_FORMAT_VERSION})`,
+      },
+    ]);
+  }
+
+  let migrated = data;
+  for (let from = version; from < LESSONS_FORMAT_VERSION; from++) {
+    migrated = {...migrations[from](migrated), version: from + 1};
+  }
+  // Keep the version first in the file
+  const {version: migratedVersion, ...rest} = migrated;
+  return {version: migratedVersion, ...rest};
+}
+
+function validateMasterState(data: Record<string, unknown>): LessonFileIssue[] {
+  const issues: LessonFileIssue[] = [];
+  const lessonIds = new Set<number>();
+
+  if (checkArray(data.lessons, ['lessons'], issues)) {
+    data.lessons.forEach((summary, index) => {
+      const summaryPath = ['lessons', index];
+      if (!isObject(summary)) {
+        issues.push({path: summaryPath, message: 'Expected an object'});
+        return;
+      }
+      if (checkLessonId(summary.id, [...summaryPath, 'id'], issues)) {
+        if (lessonIds.has(summary.id)) {
+          issues.push({path: [...summaryPath, 'id'], message: `Lesson ID ${summary.id} is used more than once`});
+        }
+        lessonIds.add(summary.id);
+      }
+      checkTitle(summary.title, [...summaryPath, 'title'], issues);
+      checkLessonDetails(summary, summaryPath, issues);
+    });
+  }
+
+  // An active lesson missing from "lessons" is not an error: the consistency check selects another lesson
+  if (data.activeLessonId !== null) {
+    checkLessonId(data.activeLessonId, ['activeLessonId'], issues);
+  }
+
+  return issues;
+}
+
+function validateLesson(data: Record<string, unknown>, expectedId: number): LessonFileIssue[] {
+  const issues: LessonFileIssue[] = [];
+
+  if (checkLessonId(data.id, ['id'], issues) && data.id !== expectedId) {
+    issues.push({path: ['id'], message: `Expected ${expectedId} (the number in the file name)`});
+  }
+  checkTitle(data.title, ['title'], issues);
+  checkLessonDetails(data, [], issues);
+  for (const key of ['createdAt', 'updatedAt']) {
+    if (data[key] !== undefined && (typeof data[key] !== 'string' || isNaN(Date.parse(data[key])))) {
+      issues.push({path: [key], message: 'Expected an ISO timestamp'});
+    }
+  }
+
+  if (checkArray(data.notes, ['notes'], issues)) {
+    data.notes.forEach((note, index) => checkNote(note, ['notes', index], issues));
+  }
+
+  return issues;
+}
+
+function checkNote(note: unknown, notePath: JsonPath, issues: LessonFileIssue[]): void {
+  if (!isObject(note)) {
+    issues.push({path: notePath, message: 'Expected an object'});
+    return;
+  }
+
+  if (typeof note.markdown !== 'string') {
+    issues.push({path: [...notePath, 'markdown'], message: 'Expected a string'});
+  }
+  if (note.speakerNotes !== undefined && typeof note.speakerNotes !== 'string') {
+    issues.push({path: [...notePath, 'speakerNotes'], message: 'Expected a string'});
+  }
+  const duration = note.durationSeconds;
+  if (duration !== undefined && (typeof duration !== 'number' || !Number.isFinite(duration) || duration <= 0)) {
+    issues.push({path: [...notePath, 'durationSeconds'], message: 'Expected a positive number of seconds'});
+  }
+
+  if (note.type === 'general') {
+    return;
+  }
+  if (note.type !== 'code') {
+    issues.push({path: [...notePath, 'type'], message: 'Expected "code" or "general"'});
+    return;
+  }
+
+  checkFileRanges(note, notePath, issues);
+  if (note.stepThrough !== undefined && typeof note.stepThrough !== 'boolean') {
+    issues.push({path: [...notePath, 'stepThrough'], message: 'Expected a boolean'});
+  }
+  if (note.typewriterCode !== undefined && typeof note.typewriterCode !== 'string') {
+    issues.push({path: [...notePath, 'typewriterCode'], message: 'Expected a string'});
+  }
+  if (note.extraFiles !== undefined && checkArray(note.extraFiles, [...notePath, 'extraFiles'], issues)) {
+    note.extraFiles.forEach((fileRanges, index) => {
+      const filePath = [...notePath, 'extraFiles', index];
+      if (isObject(fileRanges)) {
+        checkFileRanges(fileRanges, filePath, issues);
+      } else {
+        issues.push({path: filePath, message: 'Expected an object'});
+      }
+    });
+  }
+}
+
+function checkFileRanges(fileRanges: Record<string, unknown>, basePath: JsonPath, issues: LessonFileIssue[]): void {
+  if (typeof fileRanges.file !== 'string' || fileRanges.file.length === 0) {
+    issues.push({path: [...basePath, 'file'], message: 'Expected a file path relative to the workspace'});
+  }
+  if (fileRanges.folder !== undefined && (typeof fileRanges.folder !== 'string' || fileRanges.folder.length === 0)) {
+    issues.push({path: [...basePath, 'folder'], message: 'Expected the name of a workspace folder'});
+  }
+
+  if (!checkArray(fileRanges.ranges, [...basePath, 'ranges'], issues)) {
+    return;
+  }
+  const rangeCount = fileRanges.ranges.length;
+  fileRanges.ranges.forEach((range, index) => {
+    if (!isNumberPair(range) || range[0] < 0 || range[0] > range[1]) {
+      issues.push({
+        path: [...basePath, 'ranges', index],
+        message: 'Expected [startLine, endLine] with startLine <= endLine',
+      });
+    }
+  });
+
+  // Per-range data must line up with the ranges
+  const checkPerRange = (key: string, checkItem: (item: unknown) => boolean, expected: string) => {
+    const items = fileRanges[key];
+    if (items === undefined || !checkArray(items, [...basePath, key], issues)) {
+      return;
+    }
+    if (items.length !== rangeCount) {
+      issues.push({path: [...basePath, key], message: `Expected one entry per range (${rangeCount})`});
+    }
+    items.forEach((item, index) => {
+      if (!checkItem(item)) {
+        issues.push({path: [...basePath, key, index], message: `Expected ${expected}`});
+      }
+    });
+  };
+
+  checkPerRange(
+    'anchors',
+    item => isObject(item) && ['text', 'before', 'after'].every(key => typeof item[key] === 'string'),
+    'an object with "text", "before" and "after" strings'
+  );
+  checkPerRange(
+    'rangeStyles',
+    item =>
+      isObject(item) &&
+      RANGE_EMPHASES.includes(item.emphasis as string) &&
+      (item.label === undefined || typeof item.label === 'string'),
+    `an object with "emphasis" (${RANGE_EMPHASES.join(', ')}) and an optional "label"`
+  );
+  checkPerRange(
+    'characters',
+    item => item === null || (isNumberPair(item) && item[0] >= 0 && item[1] >= 0),
+    'null or [startCharacter, endCharacter]'
+  );
+}
+
+function checkLessonDetails(data: Record<string, unknown>, basePath: JsonPath, issues: LessonFileIssue[]): void {
+  if (data.description !== undefined && typeof data.description !== 'string') {
+    issues.push({path: [...basePath, 'description'], message: 'Expected a string'});
+  }
+  if (data.tags !== undefined && (!Array.isArray(data.tags) || data.tags.some(tag => typeof tag !== 'string'))) {
+    issues.push({path: [...basePath, 'tags'], message: 'Expected an array of strings'});
+  }
+  const minutes = data.estimatedMinutes;
+  if (minutes !== undefined && (typeof minutes !== 'number' || !Number.isFinite(minutes) || minutes < 0)) {
+    issues.push({path: [...basePath, 'estimatedMinutes'], message: 'Expected a non-negative number of minutes'});
+  }
+}
+
+function checkLessonId(value: unknown, valuePath: JsonPath, issues: LessonFileIssue[]): value is number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    issues.push({path: valuePath, message: 'Expected a positive integer lesson ID'});
+    return false;
+  }
+  return true;
+}
+
+function checkTitle(value: unknown, valuePath: JsonPath, issues: LessonFileIssue[]): void {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    issues.push({path: valuePath, message: 'Expected a non-empty title'});
+  }
+}
+
+function checkArray(value: unknown, valuePath: JsonPath, issues: LessonFileIssue[]): value is unknown[] {
+  if (!Array.isArray(value)) {
+    issues.push({path: valuePath, message: 'Expected an array'});
+    return false;
+  }
+  return true;
+}
+
+function isIndex(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function isNumberPair(value: unknown): value is [number, number] {
+  return Array.isArray(value) && value.length === 2 && value.every(item => Number.isInteger(item));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,180 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {randomUUID} from 'crypto';
+import {logger} from './logger';
+
+// How long to wait for another VS Code window to release the lessons lock
+const LOCK_TIMEOUT_MS = 2000;
+// A lock older than this is left over from a window that crashed while holding it
+const LOCK_STALE_MS = 10000;
+const LOCK_RETRY_MS = 25;
+
+// Name parts of the temporary files written before they replace the real files. Only files named like this
+// are cleaned up, so that other temporary files in the lessons folders are left alone.
+const TEMP_FILE_PREFIX = '.lesson-write-';
+const TEMP_FILE_SUFFIX = '.tmp';
+
+/**
+ * Write a file so that it is either fully replaced or left untouched: the content is written and flushed to a
+ * temporary file next to it, which is then renamed over the file
+ */
+export function writeFileAtomically(filePath: string, content: string): void {
+  writeFilesAtomically([{filePath, content}]);
+}
+
+/**
+ * Write several files so that either all of them are updated or none: every file is first written to a
+ * temporary file, and the files already replaced are restored if replacing a later one fails
+ */
+export function writeFilesAtomically(files: {filePath: string; content: string}[]): void {
+  const tempPaths: string[] = [];
+  const replaced: {filePath: string; previousContent: string | null}[] = [];
+
+  try {
+    for (const {filePath, content} of files) {
+      const tempPath = path.join(path.dirname(filePath), `${TEMP_FILE_PREFIX}${randomUUID()}${TEMP_FILE_SUFFIX}`);
+      tempPaths.push(tempPath);
+      writeAndFlush(tempPath, content);
+    }
+
+    for (const [index, {filePath}] of files.entries()) {
+      const previousContent = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null;
+      fs.renameSync(tempPaths[index], filePath);
+      replaced.push({filePath, previousContent});
+    }
+  } catch (error) {
+    for (const {filePath, previousContent} of replaced.reverse()) {
+      try {
+        if (previousContent === null) {
+          fs.rmSync(filePath, {force: true});
+        } else {
+          fs.writeFileSync(filePath, previousContent, 'utf-8');
+        }
+      } catch (restoreError) {
+        logger.error(`Failed to restore ${filePath}`, restoreError);
+      }
+    }
+    for (const tempPath of tempPaths) {
+      fs.rmSync(tempPath, {force: true});
+    }
+    throw error;
+  }
+}
+
+/**
+ * Delete the temporary files left in a directory by a write that was interrupted (e.g. by a crash),
+ * returning their names. Only call this while holding the lock, so that no write is in progress.
+ */
+export function removeLeftoverTempFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  const leftovers = fs
+    .readdirSync(dir)
+    .filter(name => name.startsWith(TEMP_FILE_PREFIX) && name.endsWith(TEMP_FILE_SUFFIX));
+  for (const name of leftovers) {
+    fs.rmSync(path.join(dir, name), {force: true});
+  }
+  return leftovers;
+}
+
+/**
+ * Write a file and flush it to disk, so that a crash after the rename cannot leave it empty
+ */
+function writeAndFlush(filePath: string, content: string): void {
+  const fd = fs.openSync(filePath, 'w');
+  try {
+    fs.writeFileSync(fd, content, 'utf-8');
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Lock file coordinating the VS Code windows open on the same workspace, so that one window does not
+ * overwrite the changes another window is making to the lesson files. Changes made in this window also take
+ * turns through it.
+ */
+export class FileLock {
+  private readonly token = randomUUID();
+
+  constructor(private readonly lockPath: string) {}
+
+  /**
+   * Run a function while holding the lock, waiting for other windows to release it. The function must be
+   * synchronous, so the lock is held only as long as it takes to change the files.
+   */
+  async run<T>(fn: () => T): Promise<T> {
+    await this.acquire();
+    try {
+      return fn();
+    } finally {
+      this.release();
+    }
+  }
+
+  private async acquire(): Promise<void> {
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    for (;;) {
+      try {
+        fs.writeFileSync(this.lockPath, JSON.stringify({pid: process.pid, token: this.token}), {flag: 'wx'});
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      if (this.removeIfStale()) {
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error('The lesson files are being changed by another VS Code window. Try again in a moment.');
+      }
+      await sleep(LOCK_RETRY_MS);
+    }
+  }
+
+  private release(): void {
+    try {
+      // Only remove the lock if it is still ours (it may have been taken over as stale)
+      if (this.readOwner() === this.token) {
+        fs.rmSync(this.lockPath, {force: true});
+      }
+    } catch (error) {
+      logger.error(`Failed to release the lock ${this.lockPath}`, error);
+    }
+  }
+
+  /**
+   * Remove the lock if the window holding it seems to have crashed, returning whether it was removed
+   */
+  private removeIfStale(): boolean {
+    try {
+      const age = Date.now() - fs.statSync(this.lockPath).mtimeMs;
+      if (age < LOCK_STALE_MS) {
+        return false;
+      }
+      logger.warn(`Removing the stale lock ${this.lockPath} (held for ${Math.round(age / 1000)}s)`);
+      fs.rmSync(this.lockPath, {force: true});
+      return true;
+    } catch (error) {
+      // The lock was released meanwhile
+      return !fs.existsSync(this.lockPath);
+    }
+  }
+
+  private readOwner(): string | undefined {
+    try {
+      return (JSON.parse(fs.readFileSync(this.lockPath, 'utf-8')) as {token?: string}).token;
+    } catch (error) {
+      return undefined;
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
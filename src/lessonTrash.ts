@@ -0,0 +1,88 @@
+import * as vscode from 'vscode';
+import {lessonManager} from './lessonManager';
+import {getNoteTitle} from './noteQuickPick';
+import {DeletedNoteEntry, TrashEntry} from './types';
+
+interface TrashQuickPickItem extends vscode.QuickPickItem {
+  entry?: TrashEntry;
+}
+
+/**
+ * Show a notification with an "Undo" action that runs the given callback
+ */
+export async function offerUndo(message: string, undo: () => Promise<unknown>): Promise<void> {
+  const action = await vscode.window.showInformationMessage(message, 'Undo');
+  if (action !== 'Undo') {
+    return;
+  }
+
+  try {
+    await undo();
+  } catch (error) {
+    vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to undo the deletion');
+  }
+}
+
+/**
+ * Let the user pick a deleted lesson or note from the trash, most recently deleted first
+ */
+export async function showTrashQuickPick(placeHolder: string): Promise<TrashEntry | undefined> {
+  const entries = lessonManager.getTrashEntries();
+  if (entries.length === 0) {
+    vscode.window.showInformationMessage('The trash is empty.');
+    return undefined;
+  }
+
+  const items: TrashQuickPickItem[] = [];
+  for (const kind of ['lesson', 'note'] as const) {
+    const kindEntries = entries.filter(entry => entry.kind === kind);
+    if (kindEntries.length === 0) {
+      continue;
+    }
+
+    items.push({label: kind === 'lesson' ? 'Lessons' : 'Notes', kind: vscode.QuickPickItemKind.Separator});
+    for (const entry of kindEntries) {
+      const deletedAt = `Deleted ${new Date(entry.deletedAt).toLocaleString()}`;
+      items.push(
+        entry.kind === 'lesson'
+          ? {
+              label: `$(book) ${entry.lesson.title}`,
+              description: `${entry.lesson.notes.length} ${entry.lesson.notes.length === 1 ? 'note' : 'notes'}`,
+              detail:
+                entry.mergedInto !== undefined
+                  ? `Merged ${new Date(entry.deletedAt).toLocaleString()}, restoring it takes its notes back`
+                  : deletedAt,
+              entry,
+            }
+          : {
+              label: `$(note) ${getNoteTitle(entry.note)}`,
+              description: `Note ${entry.noteIndex + 1} of "${entry.lessonTitle}"`,
+              detail: deletedAt,
+              entry,
+            }
+      );
+    }
+  }
+
+  const selected = await vscode.window.showQuickPick(items, {placeHolder, matchOnDescription: true});
+  return selected?.entry;
+}
+
+/**
+ * Let the user pick the lesson to restore a deleted note into, when the lesson it was deleted from is gone
+ */
+export async function showRestoreTargetQuickPick(entry: DeletedNoteEntry): Promise<number | undefined> {
+  const lessons = lessonManager.getAllLessons();
+  if (lessons.length === 0) {
+    vscode.window.showInformationMessage(
+      `Lesson "${entry.lessonTitle}" no longer exists. Restore it or create a lesson first.`
+    );
+    return undefined;
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    lessons.map(lesson => ({label: lesson.title, description: `ID: ${lesson.id}`, lessonId: lesson.id})),
+    {placeHolder: `Lesson "${entry.lessonTitle}" no longer exists. Restore the note at the end of...`}
+  );
+  return selected?.lessonId;
+}
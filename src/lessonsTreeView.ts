@@ -0,0 +1,277 @@
+import * as vscode from 'vscode';
+import {decorationManager} from './decorationManager';
+import {getLessonTooltip} from './lessonDetails';
+import {lessonManager} from './lessonManager';
+import {relocateNoteRanges} from './noteAnchors';
+import {showNoteFiles} from './noteFiles';
+import {getNoteDescription, getNoteTitle} from './noteQuickPick';
+import {CodeNote, LectureNote, LessonSummary} from './types';
+import {getRangeCode} from './typewriter';
+import {formatNoteFile, resolveNoteFile} from './workspaceFolders';
+
+export const LESSONS_VIEW_ID = 'codeHighlight.lessons';
+
+/**
+ * A lesson in the lessons tree
+ */
+export interface LessonTreeElement {
+  kind: 'lesson';
+  lesson: LessonSummary;
+}
+
+/**
+ * A note of a lesson in the lessons tree
+ */
+export interface NoteTreeElement {
+  kind: 'note';
+  lessonId: number;
+  noteIndex: number;
+  note: LectureNote;
+}
+
+export type LessonsTreeElement = LessonTreeElement | NoteTreeElement;
+
+class LessonsTreeDataProvider implements vscode.TreeDataProvider<LessonsTreeElement> {
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<LessonsTreeElement | undefined>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  getTreeItem(element: LessonsTreeElement): vscode.TreeItem {
+    if (element.kind === 'lesson') {
+      return this.getLessonTreeItem(element);
+    }
+    return this.getNoteTreeItem(element);
+  }
+
+  getChildren(element?: LessonsTreeElement): LessonsTreeElement[] {
+    if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
+      return [];
+    }
+
+    if (!element) {
+      return lessonManager.getAllLessons().map(lesson => ({kind: 'lesson', lesson}));
+    }
+
+    if (element.kind === 'lesson') {
+      const lesson = lessonManager.getLessonById(element.lesson.id);
+      return (lesson?.notes || []).map((note, noteIndex) => ({
+        kind: 'note',
+        lessonId: element.lesson.id,
+        noteIndex,
+        note,
+      }));
+    }
+
+    return [];
+  }
+
+  private getLessonTreeItem(element: LessonTreeElement): vscode.TreeItem {
+    const isActive = lessonManager.getActiveLessonId() === element.lesson.id;
+    const lesson = lessonManager.getLessonById(element.lesson.id);
+    const noteCount = lesson?.notes.length ?? 0;
+
+    const item = new vscode.TreeItem(
+      element.lesson.title,
+      isActive ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
+    );
+    item.id = `lesson-${element.lesson.id}`;
+    item.description = `${isActive ? 'Active · ' : ''}${noteCount} ${noteCount === 1 ? 'note' : 'notes'}`;
+    if (lesson) {
+      item.tooltip = getLessonTooltip(lesson, isActive ? 'Active lesson' : undefined);
+    }
+    item.iconPath = isActive
+      ? new vscode.ThemeIcon('book', new vscode.ThemeColor('charts.green'))
+      : new vscode.ThemeIcon('book');
+    item.contextValue = isActive ? 'activeLesson' : 'lesson';
+    return item;
+  }
+
+  private getNoteTreeItem(element: NoteTreeElement): vscode.TreeItem {
+    const {note, noteIndex} = element;
+
+    const item = new vscode.TreeItem(`${noteIndex + 1}. ${getNoteTitle(note)}`, vscode.TreeItemCollapsibleState.None);
+    item.id = `lesson-${element.lessonId}-note-${noteIndex}`;
+    // Show the auto-play duration of notes that have their own
+    item.description =
+      note.durationSeconds !== undefined
+        ? `${getNoteDescription(note)} · ${note.durationSeconds}s`
+        : getNoteDescription(note);
+    item.tooltip = new vscode.MarkdownString(note.markdown);
+    item.iconPath = new vscode.ThemeIcon(note.type === 'code' ? (note.stepThrough ? 'list-ordered' : 'code') : 'note');
+    item.contextValue = note.type === 'code' ? 'codeNote' : 'generalNote';
+
+    if (note.type === 'code') {
+      item.command = {
+        command: 'code-highlight.revealNoteCode',
+        title: 'Jump to Code',
+        arguments: [element],
+      };
+    }
+
+    return item;
+  }
+}
+
+/**
+ * Get a note as it is stored now: the note of a tree element is a snapshot taken when the tree was rendered,
+ * and the note may have been changed, moved or deleted since then
+ */
+function getCurrentNote<T extends LectureNote>(lessonId: number, noteIndex: number, shownNote: T): T {
+  const note = lessonManager.getLessonById(lessonId)?.notes[noteIndex];
+  if (!note || note.type !== shownNote.type || note.markdown !== shownNote.markdown) {
+    throw new Error(`Note ${noteIndex + 1} changed since the Lessons view showed it. Please try again.`);
+  }
+  return note as T;
+}
+
+export class LessonsTreeView {
+  private readonly dataProvider = new LessonsTreeDataProvider();
+
+  constructor(private readonly context: vscode.ExtensionContext) {}
+
+  register(): void {
+    const treeView = vscode.window.createTreeView(LESSONS_VIEW_ID, {
+      treeDataProvider: this.dataProvider,
+      showCollapseAll: true,
+    });
+
+    this.context.subscriptions.push(
+      treeView,
+      lessonManager.onDidChangeLessons(() => this.dataProvider.refresh()),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.dataProvider.refresh()),
+      vscode.commands.registerCommand('code-highlight.refreshLessons', () => this.dataProvider.refresh()),
+      vscode.commands.registerCommand('code-highlight.showLessonsPanel', async () =>
+        vscode.commands.executeCommand(`${LESSONS_VIEW_ID}.focus`)
+      ),
+      vscode.commands.registerCommand('code-highlight.revealNoteCode', async (element?: NoteTreeElement) => {
+        if (element?.note.type !== 'code') {
+          return;
+        }
+        try {
+          await this.revealNoteCode(getCurrentNote(element.lessonId, element.noteIndex, element.note));
+        } catch (error) {
+          vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to open note code');
+        }
+      }),
+      vscode.commands.registerCommand('code-highlight.toggleStepThrough', async (element?: NoteTreeElement) => {
+        if (element?.note.type !== 'code') {
+          return;
+        }
+        try {
+          await this.toggleStepThrough(element.lessonId, element.noteIndex, element.note);
+        } catch (error) {
+          vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to update note');
+        }
+      }),
+      vscode.commands.registerCommand('code-highlight.toggleTypewriter', async (element?: NoteTreeElement) => {
+        if (element?.note.type !== 'code') {
+          return;
+        }
+        try {
+          await this.toggleTypewriter(element.lessonId, element.noteIndex, element.note);
+        } catch (error) {
+          vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to update note');
+        }
+      }),
+      vscode.commands.registerCommand('code-highlight.setNoteDuration', async (element?: NoteTreeElement) => {
+        if (!element) {
+          return;
+        }
+        try {
+          await this.setNoteDuration(element.lessonId, element.noteIndex, element.note);
+        } catch (error) {
+          vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to update note');
+        }
+      })
+    );
+  }
+
+  /**
+   * Ask how long auto-play shows a note, clearing the duration to use the default from the settings
+   */
+  private async setNoteDuration(lessonId: number, noteIndex: number, shownNote: LectureNote): Promise<void> {
+    const {durationSeconds} = getCurrentNote(lessonId, noteIndex, shownNote);
+    const value = await vscode.window.showInputBox({
+      prompt: `Seconds auto-play shows note ${noteIndex + 1} (leave empty for the default from the settings)`,
+      value: durationSeconds !== undefined ? String(durationSeconds) : '',
+      validateInput: input => {
+        const seconds = Number(input);
+        return input.trim() === '' || (Number.isFinite(seconds) && seconds > 0)
+          ? null
+          : 'Duration must be a positive number of seconds';
+      },
+    });
+    if (value === undefined) {
+      // User cancelled
+      return;
+    }
+
+    // The note may have been changed while the input box was open
+    const note = {...getCurrentNote(lessonId, noteIndex, shownNote)};
+    if (value.trim() === '') {
+      delete note.durationSeconds;
+    } else {
+      note.durationSeconds = Number(value);
+    }
+    await lessonManager.updateNote(lessonId, noteIndex, note);
+  }
+
+  /**
+   * Turn the typewriter replay of a code note on or off. Turning it on stores the current code of the note's
+   * first range, which is then typed into that range while reviewing.
+   */
+  private async toggleTypewriter(lessonId: number, noteIndex: number, shownNote: CodeNote): Promise<void> {
+    const note = {...getCurrentNote(lessonId, noteIndex, shownNote)};
+    if (note.typewriterCode !== undefined) {
+      delete note.typewriterCode;
+      await lessonManager.updateNote(lessonId, noteIndex, note);
+      vscode.window.showInformationMessage(`Note ${noteIndex + 1} no longer types its code while reviewing.`);
+      return;
+    }
+
+    const document = await vscode.workspace.openTextDocument(resolveNoteFile(note));
+    const [range] = relocateNoteRanges(document, {...note, ranges: note.ranges.slice(0, 1)}).ranges;
+    if (!range) {
+      throw new Error(`Could not find the highlighted code of note ${noteIndex + 1} in ${formatNoteFile(note)}.`);
+    }
+
+    // The note may have been changed while the file was opened
+    const code = getRangeCode(document, range);
+    await lessonManager.updateNote(lessonId, noteIndex, {
+      ...getCurrentNote(lessonId, noteIndex, shownNote),
+      typewriterCode: code,
+    });
+    vscode.window.showInformationMessage(
+      `Note ${noteIndex + 1} types lines ${range[0] + 1}-${range[1] + 1} of ${formatNoteFile(note)} while reviewing.`
+    );
+  }
+
+  /**
+   * Turn the step-through reveal of a code note on or off. Its ranges are then revealed one at a time while
+   * reviewing.
+   */
+  private async toggleStepThrough(lessonId: number, noteIndex: number, shownNote: CodeNote): Promise<void> {
+    const {stepThrough, ...rest} = getCurrentNote(lessonId, noteIndex, shownNote);
+    await lessonManager.updateNote(lessonId, noteIndex, stepThrough ? rest : {...rest, stepThrough: true});
+    vscode.window.showInformationMessage(
+      stepThrough
+        ? `Note ${noteIndex + 1} shows all of its ranges at once.`
+        : `Note ${noteIndex + 1} reveals its ranges one at a time while reviewing.`
+    );
+  }
+
+  /**
+   * Open the files of a code note side by side and highlight their ranges
+   */
+  private async revealNoteCode(note: CodeNote): Promise<void> {
+    const shownFiles = await showNoteFiles(note);
+    if (shownFiles.every(({relocation}) => relocation.ranges.length === 0)) {
+      decorationManager.requestClear();
+      const files = shownFiles.map(({fileRanges}) => formatNoteFile(fileRanges)).join(', ');
+      vscode.window.showWarningMessage(`Could not find the highlighted code of this note in ${files}.`);
+    }
+  }
+}
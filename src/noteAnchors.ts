@@ -0,0 +1,222 @@
+import * as vscode from 'vscode';
+import {CharacterRange, FileRanges, LineRange, RangeAnchor, RangeStyle} from './types';
+
+// Number of lines captured above and below a range as context
+const CONTEXT_LINES = 2;
+// Minimum similarity (0-1) for a candidate position to be accepted as the new location of a range
+const MIN_SIMILARITY = 0.6;
+// Context lines weigh less than the highlighted lines themselves
+const CONTEXT_WEIGHT = 0.5;
+
+/**
+ * Result of re-locating the ranges of a code note in the current document
+ */
+export interface RelocationResult {
+  ranges: LineRange[]; // Ranges that can safely be decorated in the document
+  anchors: RangeAnchor[]; // Anchors matching the returned ranges
+  rangeStyles: RangeStyle[] | undefined; // Styles matching the returned ranges (undefined if the note has none)
+  characters: (CharacterRange | null)[] | undefined; // Columns matching the returned ranges (undefined if none)
+  changed: boolean; // True if the note must be saved again (a range moved, was lost or had no anchor)
+  lostRanges: LineRange[]; // Stored ranges that could not be found in the document
+}
+
+/**
+ * Capture the content fingerprint of a line range
+ */
+export function createRangeAnchor(document: vscode.TextDocument, range: LineRange): RangeAnchor {
+  const [start, end] = range;
+  return {
+    text: getLines(document, start, end).join('\n'),
+    before: getLines(document, start - CONTEXT_LINES, start - 1).join('\n'),
+    after: getLines(document, end + 1, end + CONTEXT_LINES).join('\n'),
+  };
+}
+
+/**
+ * Capture the content fingerprints for all ranges of a note
+ */
+export function createRangeAnchors(document: vscode.TextDocument, ranges: LineRange[]): RangeAnchor[] {
+  return ranges.map(range => createRangeAnchor(document, range));
+}
+
+/**
+ * Find the current location of every range of a code note in one of its files.
+ * Ranges with an anchor are re-located by fuzzy matching their content, ranges without one
+ * (notes saved by older versions) are clamped to the document bounds and get an anchor.
+ */
+export function relocateNoteRanges(document: vscode.TextDocument, note: FileRanges): RelocationResult {
+  const ranges: LineRange[] = [];
+  const anchors: RangeAnchor[] = [];
+  const rangeStyles: RangeStyle[] = [];
+  const characters: (CharacterRange | null)[] = [];
+  const lostRanges: LineRange[] = [];
+  let changed = false;
+
+  note.ranges.forEach((range, index) => {
+    const anchor = note.anchors?.[index];
+    const located = anchor ? relocateRange(document, range, anchor) : clampRange(document, range);
+
+    if (!located) {
+      lostRanges.push(range);
+      changed = true;
+      return;
+    }
+
+    const moved = located[0] !== range[0] || located[1] !== range[1];
+    if (moved || !anchor) {
+      // Refresh the fingerprint so it follows the code as it evolves
+      changed = true;
+      anchors.push(createRangeAnchor(document, located));
+    } else {
+      anchors.push(anchor);
+    }
+    ranges.push(located);
+    rangeStyles.push(note.rangeStyles?.[index] ?? {emphasis: 'primary'});
+    characters.push(note.characters?.[index] ?? null);
+  });
+
+  return {
+    ranges,
+    anchors,
+    rangeStyles: note.rangeStyles ? rangeStyles : undefined,
+    characters: note.characters ? characters : undefined,
+    changed,
+    lostRanges,
+  };
+}
+
+/**
+ * Find the current location of a single range using its anchor
+ */
+export function relocateRange(
+  document: vscode.TextDocument,
+  range: LineRange,
+  anchor: RangeAnchor
+): LineRange | undefined {
+  const blockLines = anchor.text.split('\n').map(normalizeLine);
+  const beforeLines = anchor.before ? anchor.before.split('\n').map(normalizeLine) : [];
+  const afterLines = anchor.after ? anchor.after.split('\n').map(normalizeLine) : [];
+  const blockLength = blockLines.length;
+
+  if (blockLength > document.lineCount) {
+    return undefined;
+  }
+
+  const docLines: string[] = [];
+  for (let i = 0; i < document.lineCount; i++) {
+    docLines.push(normalizeLine(document.lineAt(i).text));
+  }
+
+  // Fast path: the block is still where it was
+  const [storedStart] = range;
+  const stillInPlace = blockLines.every((line, j) => docLines[storedStart + j] === line);
+  if (storedStart + blockLength <= docLines.length && stillInPlace) {
+    return [storedStart, storedStart + blockLength - 1];
+  }
+
+  const bigramCache = new Map<string, Map<string, number>>();
+  let bestStart = -1;
+  let bestScore = 0;
+
+  for (let start = 0; start + blockLength <= docLines.length; start++) {
+    let blockScore = 0;
+    for (let j = 0; j < blockLength; j++) {
+      blockScore += lineSimilarity(docLines[start + j], blockLines[j], bigramCache);
+    }
+    blockScore /= blockLength;
+
+    if (blockScore < MIN_SIMILARITY) {
+      continue;
+    }
+
+    let contextScore = 0;
+    beforeLines.forEach((line, j) => {
+      const docIndex = start - beforeLines.length + j;
+      if (docIndex >= 0) {
+        contextScore += lineSimilarity(docLines[docIndex], line, bigramCache);
+      }
+    });
+    afterLines.forEach((line, j) => {
+      const docIndex = start + blockLength + j;
+      if (docIndex < docLines.length) {
+        contextScore += lineSimilarity(docLines[docIndex], line, bigramCache);
+      }
+    });
+
+    const contextLength = beforeLines.length + afterLines.length;
+    let score =
+      (blockScore * blockLength + contextScore * CONTEXT_WEIGHT) / (blockLength + contextLength * CONTEXT_WEIGHT);
+
+    // Prefer candidates close to the stored position when several are equally similar
+    score -= (Math.abs(start - storedStart) / Math.max(docLines.length, 1)) * 0.01;
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestStart = start;
+    }
+  }
+
+  if (bestStart === -1 || bestScore < MIN_SIMILARITY) {
+    return undefined;
+  }
+
+  return [bestStart, bestStart + blockLength - 1];
+}
+
+/**
+ * Clamp a range to the bounds of the document, returning undefined if it lies completely outside
+ */
+export function clampRange(document: vscode.TextDocument, range: LineRange): LineRange | undefined {
+  const lastLine = document.lineCount - 1;
+  const [start, end] = range;
+  if (start > lastLine || end < 0 || start > end) {
+    return undefined;
+  }
+  return [Math.max(start, 0), Math.min(end, lastLine)];
+}
+
+function getLines(document: vscode.TextDocument, start: number, end: number): string[] {
+  const lines: string[] = [];
+  for (let i = Math.max(start, 0); i <= Math.min(end, document.lineCount - 1); i++) {
+    lines.push(document.lineAt(i).text);
+  }
+  return lines;
+}
+
+function normalizeLine(line: string): string {
+  return line.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Similarity of two lines between 0 and 1 (Dice coefficient over character bigrams)
+ */
+function lineSimilarity(a: string, b: string, cache: Map<string, Map<string, number>>): number {
+  if (a === b) {
+    return 1;
+  }
+  if (a.length < 2 || b.length < 2) {
+    return 0;
+  }
+
+  const bigramsA = getBigrams(a, cache);
+  const bigramsB = getBigrams(b, cache);
+  let intersection = 0;
+  bigramsA.forEach((count, bigram) => {
+    intersection += Math.min(count, bigramsB.get(bigram) ?? 0);
+  });
+
+  return (2 * intersection) / (a.length - 1 + b.length - 1);
+}
+
+function getBigrams(line: string, cache: Map<string, Map<string, number>>): Map<string, number> {
+  let bigrams = cache.get(line);
+  if (!bigrams) {
+    bigrams = new Map<string, number>();
+    for (let i = 0; i < line.length - 1; i++) {
+      const bigram = line.substring(i, i + 2);
+      bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+    }
+    cache.set(line, bigrams);
+  }
+  return bigrams;
+}
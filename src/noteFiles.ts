@@ -0,0 +1,105 @@
+import * as vscode from 'vscode';
+import {decorationManager} from './decorationManager';
+import {relocateNoteRanges, RelocationResult} from './noteAnchors';
+import {CodeNote, FileRanges} from './types';
+import {resolveNoteFile} from './workspaceFolders';
+
+/**
+ * A file of a code note shown in an editor, with its ranges re-located in the current code
+ */
+export interface ShownNoteFile {
+  fileRanges: FileRanges; // The file as stored in the note
+  editor: vscode.TextEditor;
+  relocation: RelocationResult;
+}
+
+/**
+ * Get all files of a code note with their ranges, starting with the main file
+ */
+export function getNoteFiles(note: CodeNote): FileRanges[] {
+  const {file, folder, ranges, anchors, rangeStyles, characters} = note;
+  return [{file, folder, ranges, anchors, rangeStyles, characters}, ...(note.extraFiles ?? [])];
+}
+
+/**
+ * Options of showNoteFiles
+ */
+export interface ShowNoteFilesOptions {
+  preserveFocus?: boolean; // Keep the focus in the focused editor or view
+  revealedRangeCount?: number; // Only highlight this many ranges, counted in order across the files
+}
+
+/**
+ * Count the ranges of all files of a code note, i.e. the steps of a step-through note
+ */
+export function countNoteRanges(note: CodeNote): number {
+  return getNoteFiles(note).reduce((count, {ranges}) => count + ranges.length, 0);
+}
+
+/**
+ * Build a code note from its files: the first file becomes the main file, the others extra files
+ */
+export function createCodeNote(markdown: string, files: FileRanges[]): CodeNote {
+  const [mainFile, ...extraFiles] = files;
+  const note: CodeNote = {type: 'code', ...mainFile, markdown};
+  if (extraFiles.length > 0) {
+    note.extraFiles = extraFiles;
+  }
+  return note;
+}
+
+/**
+ * Replace the files of a code note, keeping the rest of the note
+ */
+export function withNoteFiles(note: CodeNote, files: FileRanges[]): CodeNote {
+  const [mainFile, ...extraFiles] = files;
+  return {...note, ...mainFile, extraFiles: extraFiles.length > 0 ? extraFiles : undefined};
+}
+
+/**
+ * Open every file of a code note side by side, starting at the given column, and highlight the
+ * re-located ranges in each editor
+ */
+export async function showNoteFiles(
+  note: CodeNote,
+  firstColumn: vscode.ViewColumn = vscode.ViewColumn.One,
+  {preserveFocus = false, revealedRangeCount}: ShowNoteFilesOptions = {}
+): Promise<ShownNoteFile[]> {
+  decorationManager.clearDecorations();
+
+  const shownFiles: ShownNoteFile[] = [];
+  let rangesToReveal = revealedRangeCount ?? Infinity;
+  for (const [index, fileRanges] of getNoteFiles(note).entries()) {
+    const doc = await vscode.workspace.openTextDocument(resolveNoteFile(fileRanges));
+    const editor = await vscode.window.showTextDocument(doc, {
+      viewColumn: firstColumn + index,
+      preview: false,
+      preserveFocus,
+    });
+
+    // Re-locate the ranges in case the code was edited since the note was written
+    const relocation = relocateNoteRanges(doc, fileRanges);
+    const revealedCount = Math.min(rangesToReveal, relocation.ranges.length);
+    rangesToReveal -= revealedCount;
+    if (relocation.ranges.length > 0) {
+      decorationManager.addEditorDecorations(
+        editor,
+        relocation.ranges,
+        relocation.rangeStyles,
+        relocation.characters,
+        revealedCount
+      );
+
+      // Reveal the last highlighted range of the file (the first range while none is highlighted)
+      const rangeIndex = Math.max(revealedCount - 1, 0);
+      const [startLine] = relocation.ranges[rangeIndex];
+      const start = new vscode.Position(startLine, relocation.characters?.[rangeIndex]?.[0] ?? 0);
+      editor.revealRange(new vscode.Range(start, start), vscode.TextEditorRevealType.InCenter);
+      editor.selection = new vscode.Selection(start, start);
+    }
+
+    shownFiles.push({fileRanges, editor, relocation});
+  }
+
+  return shownFiles;
+}
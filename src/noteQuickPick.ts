@@ -0,0 +1,81 @@
+import * as vscode from 'vscode';
+import {getNoteFiles} from './noteFiles';
+import {CharacterRange, LectureNote, LineRange} from './types';
+import {formatNoteFile} from './workspaceFolders';
+
+const MAX_TITLE_LENGTH = 60;
+
+interface NoteQuickPickItem extends vscode.QuickPickItem {
+  noteIndex: number;
+}
+
+/**
+ * Get a short, single-line title for a note (first line of its markdown)
+ */
+export function getNoteTitle(note: LectureNote): string {
+  const firstLine = note.markdown
+    .split('\n')
+    .map(line => line.replace(/^[#>\-*\s]+/, '').trim())
+    .find(line => line.length > 0);
+
+  if (!firstLine) {
+    return '(empty note)';
+  }
+
+  return firstLine.length > MAX_TITLE_LENGTH ? `${firstLine.slice(0, MAX_TITLE_LENGTH)}…` : firstLine;
+}
+
+/**
+ * Describe where a note points to (files and line ranges for code notes)
+ */
+export function getNoteDescription(note: LectureNote): string {
+  if (note.type === 'general') {
+    return 'General note';
+  }
+
+  return getNoteFiles(note)
+    .map(fileRanges => {
+      const lines = fileRanges.ranges.map(([start, end]) =>
+        start === end ? `${start + 1}` : `${start + 1}-${end + 1}`
+      );
+      return `${formatNoteFile(fileRanges)}:${lines.join(', ')}`;
+    })
+    .join(' · ');
+}
+
+/**
+ * Describe a range for the user, e.g. "Lines 3-5" or "Lines 3:7-5:12" for a precise range (1-based)
+ */
+export function formatRange([start, end]: LineRange, characters?: CharacterRange | null): string {
+  if (!characters) {
+    return `Lines ${start + 1}-${end + 1}`;
+  }
+  return `Lines ${start + 1}:${characters[0] + 1}-${end + 1}:${characters[1] + 1}`;
+}
+
+/**
+ * Show a quick pick listing the given notes and return the index of the selected one.
+ * Optionally marks one note (e.g. the last reviewed one) with an extra description.
+ */
+export async function showNoteQuickPick(
+  notes: LectureNote[],
+  placeHolder: string,
+  markedIndex?: number,
+  markedDescription?: string
+): Promise<number | undefined> {
+  const items: NoteQuickPickItem[] = notes.map((note, index) => ({
+    label: `${index + 1}. ${note.type === 'code' ? '$(code)' : '$(note)'} ${getNoteTitle(note)}`,
+    description:
+      index === markedIndex && markedDescription
+        ? `${markedDescription} · ${getNoteDescription(note)}`
+        : getNoteDescription(note),
+    noteIndex: index,
+  }));
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder,
+    matchOnDescription: true,
+  });
+
+  return selected?.noteIndex;
+}
@@ -1,11 +1,64 @@
 import * as vscode from 'vscode';
 import {decorationManager} from './decorationManager';
+import {getNonce, renderMarkdown} from './htmlUtils';
+import {getFence, getFenceLanguage, mergeRanges} from './lessonExport';
 import {lessonManager} from './lessonManager';
-import {LineRange, LectureNote} from './types';
+import {offerUndo, showRestoreTargetQuickPick} from './lessonTrash';
+import {createRangeAnchors} from './noteAnchors';
+import {EMPHASIS_LABELS} from './highlightStyle';
+import {createCodeNote, showNoteFiles} from './noteFiles';
+import {formatRange, getNoteDescription, getNoteTitle} from './noteQuickPick';
+import {
+  CharacterRange,
+  DeletedNoteEntry,
+  FileRanges,
+  LineRange,
+  LectureNote,
+  RangeEmphasis,
+  RangeStyle,
+} from './types';
+import {formatNoteFile, getNoteFileLocation} from './workspaceFolders';
 
-interface SelectionInfo {
-  file: string;
+/**
+ * Ranges selected in one file of the note being written
+ */
+interface FileSelection {
+  file: string; // Absolute path of the file
   ranges: LineRange[]; // Array of [start, end] tuples
+  styles?: RangeStyle[]; // Style per range (same order as ranges)
+  characters?: (CharacterRange | null)[]; // Columns per range (same order as ranges), null for whole lines
+}
+
+interface SelectionInfo {
+  files: FileSelection[]; // The first file becomes the main file of the note
+}
+
+// Layout of the markdown editor: textarea only, textarea and preview side by side, or preview only
+type EditorMode = 'edit' | 'split' | 'preview';
+
+/**
+ * Everything the notes webview displays, sent with postMessage (the extension is the source of truth)
+ */
+interface PanelState {
+  headerTitle: string;
+  saveLabel: string;
+  nextRangeEmphasis: RangeEmphasis;
+  editorMode: EditorMode;
+  files: {
+    path: string; // Path relative to the workspace, shown above the ranges of the file
+    fullPath: string;
+    ranges: {text: string; emphasis: RangeEmphasis; label?: string}[];
+  }[];
+  notes: {title: string; description: string; editing: boolean}[];
+}
+
+/**
+ * The lesson note being edited, with a copy of the note as it was when editing started
+ */
+interface EditTarget {
+  lessonId: number;
+  noteIndex: number;
+  original: LectureNote;
 }
 
 let notesPanel: vscode.WebviewPanel | undefined = undefined;
@@ -13,6 +66,10 @@ let currentSelection: SelectionInfo | undefined = undefined;
 let isWaitingForRangeSelection: boolean = false;
 let rangeSelectionDisposable: vscode.Disposable | undefined = undefined;
 let currentText: string = ''; // Store the current textarea content
+let currentSpeakerNotes: string = ''; // Store the content of the speaker notes textarea
+let editingNote: EditTarget | undefined = undefined; // The lesson note being edited (undefined for a new note)
+let nextRangeEmphasis: RangeEmphasis = 'primary'; // Emphasis given to the next range added to the note
+let editorMode: EditorMode = 'edit'; // Kept for the session so every note opens in the layout last used
 
 /**
  * Get the current notes panel (for use by extension.ts)
@@ -22,23 +79,178 @@ export function getNotesPanel(): vscode.WebviewPanel | undefined {
 }
 
 /**
- * Update the notes panel with new ranges
+ * Add a range selected in an editor to the open note. A range in another file than the ones
+ * already in the note adds that file to the note. Returns false if the range is already selected.
+ */
+export function addRangeToNotesPanel(
+  editor: vscode.TextEditor,
+  range: LineRange,
+  characters: CharacterRange | null
+): boolean {
+  const file = editor.document.uri.fsPath;
+  currentSelection = currentSelection ?? {files: []};
+
+  let fileSelection = currentSelection.files.find(selection => selection.file === file);
+  if (!fileSelection) {
+    fileSelection = {file, ranges: []};
+    currentSelection.files.push(fileSelection);
+  }
+
+  const selected = fileSelection;
+  const exists = selected.ranges.some(
+    ([start, end], index) =>
+      start === range[0] &&
+      end === range[1] &&
+      selected.characters?.[index]?.[0] === characters?.[0] &&
+      selected.characters?.[index]?.[1] === characters?.[1]
+  );
+  if (exists) {
+    return false;
+  }
+
+  // Add the new range with the emphasis chosen in the notes panel
+  selected.styles = [...getRangeStyles(selected), {emphasis: nextRangeEmphasis}];
+  selected.characters = [...getRangeCharacters(selected), characters];
+  selected.ranges = [...selected.ranges, range];
+
+  applySelectionDecorations();
+  refreshNotesPanel();
+  return true;
+}
+
+/**
+ * Update the notes panel (e.g. after the lesson notes changed)
+ */
+export function refreshNotesPanel(): void {
+  postPanelState();
+}
+
+/**
+ * Open an existing note of the active lesson in the notes panel for editing
  */
-export function updateNotesPanelRanges(ranges: LineRange[], file: string): void {
-  if (currentSelection) {
-    currentSelection.ranges = ranges;
-    currentSelection.file = file;
+export async function openNoteForEditing(context: vscode.ExtensionContext, noteIndex: number): Promise<void> {
+  const activeLesson = lessonManager.getActiveLesson();
+  if (!activeLesson) {
+    throw new Error('No active lesson');
+  }
+
+  const note = activeLesson.notes[noteIndex];
+  if (!note) {
+    throw new Error(`Note ${noteIndex + 1} does not exist in lesson "${activeLesson.title}"`);
+  }
+
+  if (note.type === 'code') {
+    // Use the current location of the ranges in case the code was edited
+    const shownFiles = await showNoteFiles(note);
+    createOrShowNotesPanel(context, {
+      files: shownFiles.map(({editor, relocation}) => ({
+        file: editor.document.uri.fsPath,
+        ranges: relocation.ranges,
+        styles: relocation.rangeStyles,
+        characters: relocation.characters,
+      })),
+    });
   } else {
-    currentSelection = {
-      file: file,
-      ranges: ranges,
-    };
+    decorationManager.requestClear();
+    currentSelection = undefined;
+    createOrShowNotesPanel(context, undefined, true);
   }
 
-  if (notesPanel) {
-    // Update HTML preserving current text (stored from webview input events)
-    notesPanel.webview.html = getWebviewContent(currentText);
+  // Load the note content after the panel is shown (creating the panel resets the text)
+  editingNote = {lessonId: activeLesson.id, noteIndex, original: structuredClone(note)};
+  currentText = note.markdown;
+  currentSpeakerNotes = note.speakerNotes ?? '';
+  postPanelState(true);
+}
+
+/**
+ * Ask for confirmation and move a note of the active lesson to the trash, offering to undo it
+ */
+export async function deleteLessonNote(noteIndex: number): Promise<boolean> {
+  const activeLesson = lessonManager.getActiveLesson();
+  if (!activeLesson) {
+    throw new Error('No active lesson');
+  }
+
+  const note = activeLesson.notes[noteIndex];
+  if (!note) {
+    throw new Error(`Note ${noteIndex + 1} does not exist in lesson "${activeLesson.title}"`);
+  }
+
+  const confirm = await vscode.window.showWarningMessage(
+    `Are you sure you want to delete note ${noteIndex + 1} "${getNoteTitle(note)}"?`,
+    {modal: true},
+    'Delete'
+  );
+
+  if (confirm !== 'Delete') {
+    return false;
+  }
+
+  const entry = await lessonManager.deleteNote(activeLesson.id, noteIndex);
+
+  // Keep the index of the note being edited in sync with the lesson
+  if (editingNote?.lessonId === activeLesson.id) {
+    if (editingNote.noteIndex === noteIndex) {
+      editingNote = undefined;
+    } else if (editingNote.noteIndex > noteIndex) {
+      editingNote.noteIndex -= 1;
+    }
+  }
+
+  refreshNotesPanel();
+  offerUndo(`Note ${noteIndex + 1} has been moved to the trash.`, () => restoreLessonNote(entry.id));
+  return true;
+}
+
+/**
+ * Restore a note from the trash into its lesson, or into a lesson the user picks when its lesson is gone.
+ * Resolves to undefined if the user cancelled.
+ */
+export async function restoreLessonNote(entryId: string): Promise<DeletedNoteEntry | undefined> {
+  const trashEntry = lessonManager.getTrashEntries().find(e => e.id === entryId);
+  let lessonId: number | undefined;
+  if (trashEntry?.kind === 'note' && !lessonManager.getNoteEntryLesson(trashEntry)) {
+    lessonId = await showRestoreTargetQuickPick(trashEntry);
+    if (lessonId === undefined) {
+      return undefined;
+    }
+  }
+
+  const entry = await lessonManager.restoreNote(entryId, lessonId);
+
+  // Keep the index of the note being edited in sync with the lesson
+  if (editingNote?.lessonId === entry.lessonId && editingNote.noteIndex >= entry.noteIndex) {
+    editingNote.noteIndex += 1;
+  }
+
+  refreshNotesPanel();
+  return entry;
+}
+
+/**
+ * Move a note of the active lesson to a new position
+ */
+export async function moveLessonNote(fromIndex: number, toIndex: number): Promise<void> {
+  const activeLesson = lessonManager.getActiveLesson();
+  if (!activeLesson) {
+    throw new Error('No active lesson');
+  }
+
+  await lessonManager.moveNote(activeLesson.id, fromIndex, toIndex);
+
+  // Keep the index of the note being edited in sync with the lesson
+  if (editingNote?.lessonId === activeLesson.id) {
+    if (editingNote.noteIndex === fromIndex) {
+      editingNote.noteIndex = toIndex;
+    } else if (fromIndex < editingNote.noteIndex && editingNote.noteIndex <= toIndex) {
+      editingNote.noteIndex -= 1;
+    } else if (toIndex <= editingNote.noteIndex && editingNote.noteIndex < fromIndex) {
+      editingNote.noteIndex += 1;
+    }
   }
+
+  refreshNotesPanel();
 }
 
 export function createOrShowNotesPanel(
@@ -51,56 +263,40 @@ export function createOrShowNotesPanel(
   // If selectionInfo is provided, update currentSelection and apply decorations
   if (selectionInfo) {
     currentSelection = selectionInfo;
-    const editor = vscode.window.activeTextEditor;
-    if (editor && selectionInfo.ranges.length > 0) {
-      decorationManager.applyDecorationsForRanges(editor, selectionInfo.ranges);
-    }
+    applySelectionDecorations();
   } else if (!isGeneralNote) {
-    // If no selection info provided, try to get from decoration manager
-    const editor = vscode.window.activeTextEditor;
-    if (editor) {
-      const existingRanges = decorationManager.getCurrentRanges();
-      if (existingRanges.length > 0) {
-        currentSelection = {
-          file: editor.document.uri.fsPath,
-          ranges: existingRanges,
-        };
-      } else {
-        currentSelection = {
-          file: editor.document.uri.fsPath,
-          ranges: [],
-        };
-      }
-    }
+    // If no selection info provided, take the ranges currently highlighted by the decoration manager
+    currentSelection = {files: decorationManager.getDecoratedFiles()};
   }
 
   if (notesPanel) {
-    // If panel already exists, check if we're starting a new note (different file)
-    // Clear text only if the file changed, otherwise preserve it (adding ranges to same note)
-    if (currentSelection && selectionInfo && currentSelection.file !== selectionInfo.file) {
-      currentText = '';
-    }
-
-    // Update panel with preserved or cleared text
+    // The text is kept: ranges from other files are added to the open note instead of starting a new one
     notesPanel.reveal(columnToShowIn, false);
-    notesPanel.webview.html = getWebviewContent(currentText);
+    postPanelState();
     return;
   }
 
   // Create a new panel
+  // The webview keeps its own state (vscode.setState) while hidden, so its context is not retained
   notesPanel = vscode.window.createWebviewPanel('lectureNotes', 'Lecture Notes', columnToShowIn, {
     enableScripts: true,
-    retainContextWhenHidden: true,
   });
 
-  // Set initial content (clear text for new panel)
+  // Set initial content (clear text for new panel); the HTML is loaded once and updated through messages
   currentText = '';
-  notesPanel.webview.html = getWebviewContent('');
+  currentSpeakerNotes = '';
+  editingNote = undefined;
+  nextRangeEmphasis = 'primary';
+  notesPanel.webview.html = getWebviewContent();
 
   // Handle messages from the webview
   notesPanel.webview.onDidReceiveMessage(
     async message => {
       switch (message.command) {
+        case 'ready':
+          // The webview (re)loaded - send it the full state including the text
+          postPanelState(true);
+          break;
         case 'save':
           try {
             const activeLesson = lessonManager.getActiveLesson();
@@ -110,10 +306,12 @@ export function createOrShowNotesPanel(
             }
 
             // Save the note to the active lesson
-            await saveNoteToLesson(message.text, currentSelection);
-            vscode.window.showInformationMessage('Lecture notes saved!');
+            const wasEditing = editingNote !== undefined;
+            await saveNoteToLesson(message.text, message.speakerNotes ?? '', currentSelection);
+            vscode.window.showInformationMessage(wasEditing ? 'Lecture note updated!' : 'Lecture notes saved!');
             decorationManager.requestClear();
             currentText = '';
+            currentSpeakerNotes = '';
             notesPanel?.dispose();
           } catch (error) {
             vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to save notes');
@@ -122,6 +320,7 @@ export function createOrShowNotesPanel(
         case 'cancel':
           decorationManager.requestClear();
           currentText = '';
+          currentSpeakerNotes = '';
           notesPanel?.dispose();
           // Restore focus to the text editor using command
           setTimeout(() => {
@@ -134,16 +333,96 @@ export function createOrShowNotesPanel(
             currentText = message.text;
           }
           break;
-        case 'removeRange':
-          if (currentSelection && message.rangeIndex !== undefined) {
-            // Remove range using decoration manager
-            decorationManager.removeRange(message.rangeIndex);
-            // Update currentSelection to match decoration manager
-            currentSelection.ranges = decorationManager.getCurrentRanges();
-            // Update the panel (preserve current text)
-            if (notesPanel) {
-              notesPanel.webview.html = getWebviewContent(currentText);
+        case 'updateSpeakerNotes':
+          if (message.speakerNotes !== undefined) {
+            currentSpeakerNotes = message.speakerNotes;
+          }
+          break;
+        case 'removeRange': {
+          const fileSelection = currentSelection?.files[message.fileIndex];
+          if (currentSelection && fileSelection && message.rangeIndex !== undefined) {
+            const keep = (_: unknown, index: number) => index !== message.rangeIndex;
+            fileSelection.ranges = fileSelection.ranges.filter(keep);
+            fileSelection.styles = getRangeStyles(fileSelection).filter(keep);
+            fileSelection.characters = getRangeCharacters(fileSelection).filter(keep);
+            // Drop files without ranges from the note
+            currentSelection.files = currentSelection.files.filter(selection => selection.ranges.length > 0);
+            applySelectionDecorations();
+            postPanelState();
+          }
+          break;
+        }
+        case 'setRangeEmphasis': {
+          const fileSelection = currentSelection?.files[message.fileIndex];
+          const style = fileSelection && getRangeStyles(fileSelection)[message.rangeIndex];
+          if (fileSelection && style) {
+            setRangeStyle(fileSelection, message.rangeIndex, {...style, emphasis: message.emphasis});
+            postPanelState();
+          }
+          break;
+        }
+        case 'setRangeLabel': {
+          const fileSelection = currentSelection?.files[message.fileIndex];
+          const style = fileSelection && getRangeStyles(fileSelection)[message.rangeIndex];
+          if (!fileSelection || !style) {
+            break;
+          }
+          const rangeText = formatRange(
+            fileSelection.ranges[message.rangeIndex],
+            fileSelection.characters?.[message.rangeIndex]
+          );
+          const label = await vscode.window.showInputBox({
+            prompt: `Label for ${rangeText.toLowerCase()} (leave empty to remove)`,
+            placeHolder: 'e.g., before',
+            value: style.label ?? '',
+          });
+          if (label === undefined) {
+            break;
+          }
+          setRangeStyle(fileSelection, message.rangeIndex, {...style, label: label.trim() || undefined});
+          postPanelState();
+          break;
+        }
+        case 'setNextRangeEmphasis':
+          nextRangeEmphasis = message.emphasis;
+          break;
+        case 'setEditorMode':
+          editorMode = message.mode;
+          break;
+        case 'renderPreview':
+          notesPanel?.webview.postMessage({command: 'preview', html: await renderMarkdown(message.text ?? '')});
+          break;
+        case 'insertHighlightedCode':
+          try {
+            const snippet = await getHighlightedCodeMarkdown();
+            if (!snippet) {
+              vscode.window.showInformationMessage('No highlighted code to insert. Select code and press Ctrl+Alt+L.');
+              break;
             }
+            notesPanel?.webview.postMessage({command: 'insertText', text: snippet});
+          } catch (error) {
+            vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to read highlighted code');
+          }
+          break;
+        case 'editNote':
+          try {
+            await openNoteForEditing(context, message.noteIndex);
+          } catch (error) {
+            vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to open note');
+          }
+          break;
+        case 'deleteNote':
+          try {
+            await deleteLessonNote(message.noteIndex);
+          } catch (error) {
+            vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to delete note');
+          }
+          break;
+        case 'moveNote':
+          try {
+            await moveLessonNote(message.fromIndex, message.toIndex);
+          } catch (error) {
+            vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to move note');
           }
           break;
       }
@@ -152,12 +431,30 @@ export function createOrShowNotesPanel(
     context.subscriptions
   );
 
+  // Keep the notes list up to date when lessons change, also on disk
+  const lessonsChangeDisposable = lessonManager.onDidChangeLessons(event => {
+    if (event.external && editingNote !== undefined) {
+      // The notes may have been reordered, replaced or removed on disk: find the edited note again,
+      // and when it is gone, saving adds the text as a new note
+      editingNote = resolveEditTarget(editingNote);
+      if (!editingNote) {
+        vscode.window.showWarningMessage(
+          'The note being edited was changed or removed on disk. Saving will add your text as a new note.'
+        );
+      }
+    }
+    postPanelState();
+  });
+
   // Clean up when the panel is closed
   notesPanel.onDidDispose(
     () => {
+      lessonsChangeDisposable.dispose();
       notesPanel = undefined;
       currentSelection = undefined;
       currentText = '';
+      currentSpeakerNotes = '';
+      editingNote = undefined;
       isWaitingForRangeSelection = false;
     },
     null,
@@ -165,10 +462,93 @@ export function createOrShowNotesPanel(
   );
 }
 
+/**
+ * Find the note being edited in its lesson again, preferring its last known position.
+ * Returns undefined when the lesson or the note is gone.
+ */
+function resolveEditTarget(target: EditTarget): EditTarget | undefined {
+  const notes = lessonManager.getLessonById(target.lessonId)?.notes ?? [];
+  const original = JSON.stringify(target.original);
+  if (JSON.stringify(notes[target.noteIndex]) === original) {
+    return target;
+  }
+
+  const noteIndex = notes.findIndex(note => JSON.stringify(note) === original);
+  return noteIndex === -1 ? undefined : {...target, noteIndex};
+}
+
+/**
+ * Get the style of every range of a file (primary when not set)
+ */
+function getRangeStyles(fileSelection: FileSelection): RangeStyle[] {
+  return fileSelection.ranges.map((_, index) => fileSelection.styles?.[index] ?? {emphasis: 'primary'});
+}
+
+/**
+ * Get the columns of every range of a file (null for whole-line ranges)
+ */
+function getRangeCharacters(fileSelection: FileSelection): (CharacterRange | null)[] {
+  return fileSelection.ranges.map((_, index) => fileSelection.characters?.[index] ?? null);
+}
+
+/**
+ * Change the style of one range and update its highlight
+ */
+function setRangeStyle(fileSelection: FileSelection, rangeIndex: number, style: RangeStyle): void {
+  const styles = getRangeStyles(fileSelection);
+  styles[rangeIndex] = style;
+  fileSelection.styles = styles;
+  applySelectionDecorations();
+}
+
+/**
+ * Highlight the selected ranges in every visible editor that shows one of the note's files
+ */
+function applySelectionDecorations(): void {
+  decorationManager.clearDecorations();
+  for (const fileSelection of currentSelection?.files ?? []) {
+    const editor = vscode.window.visibleTextEditors.find(
+      visibleEditor => visibleEditor.document.uri.fsPath === fileSelection.file
+    );
+    if (editor && fileSelection.ranges.length > 0) {
+      decorationManager.addEditorDecorations(
+        editor,
+        fileSelection.ranges,
+        fileSelection.styles,
+        fileSelection.characters
+      );
+    }
+  }
+}
+
+/**
+ * Get the code of the selected ranges as fenced markdown code blocks (one per contiguous block of lines)
+ */
+async function getHighlightedCodeMarkdown(): Promise<string> {
+  const blocks: string[] = [];
+  for (const fileSelection of currentSelection?.files ?? []) {
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(fileSelection.file));
+    const language = getFenceLanguage(document.languageId);
+    for (const [start, end] of mergeRanges(fileSelection.ranges)) {
+      const lines: string[] = [];
+      for (let i = start; i <= end && i < document.lineCount; i++) {
+        lines.push(document.lineAt(i).text);
+      }
+      const fence = getFence(lines);
+      blocks.push(`${fence}${language}\n${lines.join('\n')}\n${fence}`);
+    }
+  }
+  return blocks.join('\n\n');
+}
+
 /**
  * Save note to the active lesson
  */
-async function saveNoteToLesson(markdown: string, selection: SelectionInfo | undefined): Promise<void> {
+async function saveNoteToLesson(
+  markdown: string,
+  speakerNotes: string,
+  selection: SelectionInfo | undefined
+): Promise<void> {
   // Get fresh copy of the active lesson from disk
   const activeLesson = lessonManager.getActiveLesson();
   if (!activeLesson) {
@@ -177,65 +557,182 @@ async function saveNoteToLesson(markdown: string, selection: SelectionInfo | und
 
   // Create a new note object
   let newNote: LectureNote;
-  if (!selection || selection.ranges.length === 0) {
+  const selectedFiles = (selection?.files ?? []).filter(fileSelection => fileSelection.ranges.length > 0);
+  if (selectedFiles.length === 0) {
     // General note
     newNote = {
       type: 'general',
       markdown: markdown.trim(),
     };
   } else {
-    // Code note - get relative file path
-    const filePath = selection.file;
-    const relativePath = vscode.workspace.asRelativePath(filePath);
+    // Code note - one entry per file, the first one being the main file
+    const files: FileRanges[] = [];
+    for (const fileSelection of selectedFiles) {
+      files.push(await createFileRanges(fileSelection));
+    }
+    newNote = createCodeNote(markdown.trim(), files);
+  }
+
+  // Speaker notes are only shown in the presenter view
+  if (speakerNotes.trim()) {
+    newNote.speakerNotes = speakerNotes.trim();
+  }
+
+  if (editingNote !== undefined) {
+    // Save into the lesson the note came from, which is not necessarily the active lesson anymore
+    const {lessonId, noteIndex, original} = editingNote;
+    const lesson = lessonManager.getLessonById(lessonId);
+    if (!lesson) {
+      throw new Error('The lesson of the note being edited no longer exists');
+    }
+    const editedNote = lesson.notes[noteIndex];
+    if (JSON.stringify(editedNote) !== JSON.stringify(original)) {
+      throw new Error(
+        `Note ${noteIndex + 1} of lesson "${lesson.title}" was changed since you started editing it. ` +
+          'Copy your text and open the note again to edit it.'
+      );
+    }
+
+    // Keep the review settings of the note being edited, which the panel does not change
+    if (newNote.type === 'code' && editedNote.type === 'code') {
+      if (editedNote.stepThrough) {
+        newNote.stepThrough = true;
+      }
+      if (editedNote.typewriterCode !== undefined) {
+        newNote.typewriterCode = editedNote.typewriterCode;
+      }
+    }
+    if (editedNote.durationSeconds !== undefined) {
+      newNote.durationSeconds = editedNote.durationSeconds;
+    }
+
+    // Replace the note being edited
+    await lessonManager.updateNote(lessonId, noteIndex, newNote);
+    editingNote = undefined;
+    return;
+  }
+
+  // Add the note to the lesson
+  activeLesson.notes.push(newNote);
+
+  // Save the lesson using lessonManager
+  await lessonManager.saveLesson(activeLesson);
+}
 
-    // Validate ranges
-    const validatedRanges = selection.ranges.filter(([start, end]) => {
+/**
+ * Validate the ranges selected in one file and capture their anchors
+ */
+async function createFileRanges(selection: FileSelection): Promise<FileRanges> {
+  // Get the file path relative to its workspace folder
+  const filePath = selection.file;
+  const location = getNoteFileLocation(vscode.Uri.file(filePath));
+  const relativePath = formatNoteFile(location);
+
+  // Validate ranges (keeping the index so each range keeps its style)
+  const validatedIndices = selection.ranges
+    .map((range, index) => index)
+    .filter(index => {
+      const [start, end] = selection.ranges[index];
       // Validate: start should be <= end
       if (start > end) {
         return false;
       }
       return true;
     });
+  const validatedRanges = validatedIndices.map(index => selection.ranges[index]);
+  const validatedStyles: RangeStyle[] = validatedIndices.map(
+    index => selection.styles?.[index] ?? {emphasis: 'primary'}
+  );
+  const validatedCharacters = validatedIndices.map(index => selection.characters?.[index] ?? null);
 
-    if (validatedRanges.length === 0) {
-      throw new Error('No valid ranges provided');
-    }
-
-    newNote = {
-      type: 'code',
-      file: relativePath,
-      ranges: validatedRanges,
-      markdown: markdown.trim(),
-    };
+  if (validatedRanges.length === 0) {
+    throw new Error(`No valid ranges provided for ${relativePath}`);
   }
 
-  // Add the note to the lesson
-  activeLesson.notes.push(newNote);
+  // Capture the content of each range so it can be re-located after the code changes
+  const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
 
-  // Save the lesson using lessonManager
-  lessonManager.saveLesson(activeLesson);
+  const fileRanges: FileRanges = {
+    ...location,
+    ranges: validatedRanges,
+    anchors: createRangeAnchors(document, validatedRanges),
+  };
+
+  // Only store styles when a range is not the default primary highlight
+  if (validatedStyles.some(style => style.emphasis !== 'primary' || style.label)) {
+    fileRanges.rangeStyles = validatedStyles;
+  }
+
+  // Only store columns when a range is not a whole-line range
+  if (validatedCharacters.some(characters => characters !== null)) {
+    fileRanges.characters = validatedCharacters;
+  }
+  return fileRanges;
 }
 
-function getWebviewContent(preservedText: string = ''): string {
+/**
+ * Build the state displayed by the webview from the extension state
+ */
+function getPanelState(): PanelState {
   const activeLesson = lessonManager.getActiveLesson();
   const lessonTitle = activeLesson ? activeLesson.title : 'No active lesson';
-  const ranges = currentSelection?.ranges || [];
-  const rangesHtml = ranges
-    .map(
-      (range, index) => `
-    <div class="range-item">
-      <span class="range-text">Lines ${range[0] + 1}-${range[1] + 1}</span>
-      <button class="button-remove" data-range-index="${index}">×</button>
-    </div>
-  `
-    )
-    .join('');
+  const editedLessonTitle = editingNote ? lessonManager.getLessonById(editingNote.lessonId)?.title : undefined;
+
+  return {
+    headerTitle:
+      editingNote !== undefined
+        ? `Editing Note ${editingNote.noteIndex + 1} - ${editedLessonTitle ?? lessonTitle}`
+        : `Lecture Notes - ${lessonTitle}`,
+    saveLabel: editingNote !== undefined ? 'Update' : 'Save',
+    nextRangeEmphasis,
+    editorMode,
+    files: (currentSelection?.files || []).map(fileSelection => {
+      const rangeStyles = getRangeStyles(fileSelection);
+      const rangeCharacters = getRangeCharacters(fileSelection);
+      return {
+        path: vscode.workspace.asRelativePath(fileSelection.file),
+        fullPath: fileSelection.file,
+        ranges: fileSelection.ranges.map((range, index) => ({
+          text: formatRange(range, rangeCharacters[index]),
+          emphasis: rangeStyles[index].emphasis,
+          label: rangeStyles[index].label,
+        })),
+      };
+    }),
+    notes: (activeLesson?.notes || []).map((note, index) => ({
+      title: getNoteTitle(note),
+      description: getNoteDescription(note),
+      editing: editingNote?.lessonId === activeLesson?.id && index === editingNote?.noteIndex,
+    })),
+  };
+}
+
+/**
+ * Send the current state to the webview. The texts are only sent when the extension changed them,
+ * so the textarea keeps its cursor, scroll position and undo history while the author types.
+ */
+function postPanelState(includeText: boolean = false): void {
+  notesPanel?.webview.postMessage({
+    command: 'state',
+    state: getPanelState(),
+    text: includeText ? currentText : undefined,
+    speakerNotes: includeText ? currentSpeakerNotes : undefined,
+  });
+}
+
+/**
+ * Build the HTML of the notes webview. It is loaded once; its content is rendered from the state
+ * posted by postPanelState.
+ */
+function getWebviewContent(): string {
+  const nonce = getNonce();
 
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src https: data:; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
   <title>Lecture Notes</title>
   <style>
     * {
@@ -263,9 +760,135 @@ function getWebviewContent(preservedText: string = ''): string {
       color: var(--vscode-titleBar-activeForeground);
     }
 
+    .toolbar {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+      padding: 4px 12px;
+      border-bottom: 1px solid var(--vscode-panel-border);
+    }
+
+    .toolbar-spacer {
+      flex: 1;
+    }
+
+    .toolbar button {
+      padding: 2px 8px;
+      border: 1px solid transparent;
+      background: none;
+      color: var(--vscode-foreground);
+      font-size: 12px;
+    }
+
+    .toolbar button:hover {
+      background-color: var(--vscode-toolbar-hoverBackground);
+    }
+
+    .toolbar .mode-button.active {
+      border-color: var(--vscode-focusBorder);
+    }
+
+    .editor-area {
+      flex: 1;
+      display: flex;
+      min-height: 0;
+    }
+
+    .editor-area.mode-edit .preview,
+    .editor-area.mode-preview textarea {
+      display: none;
+    }
+
+    .editor-area.mode-split .preview {
+      border-left: 1px solid var(--vscode-panel-border);
+    }
+
+    .preview {
+      flex: 1;
+      min-width: 0;
+      padding: 12px;
+      overflow-y: auto;
+      font-size: var(--vscode-font-size);
+      line-height: 1.6;
+    }
+
+    .preview h1, .preview h2, .preview h3 {
+      margin: 0.6em 0 0.4em;
+    }
+
+    .preview p, .preview ul, .preview ol, .preview table, .preview pre, .preview blockquote {
+      margin: 0 0 0.8em;
+    }
+
+    .preview ul, .preview ol {
+      padding-left: 1.5em;
+    }
+
+    .preview a {
+      color: var(--vscode-textLink-foreground);
+    }
+
+    .preview code {
+      font-family: var(--vscode-editor-font-family);
+      color: var(--vscode-textPreformat-foreground);
+    }
+
+    .preview pre {
+      padding: 8px 12px;
+      overflow-x: auto;
+      border-radius: 3px;
+      background-color: var(--vscode-textCodeBlock-background);
+    }
+
+    .preview pre code {
+      color: var(--vscode-editor-foreground);
+    }
+
+    .preview table {
+      border-collapse: collapse;
+    }
+
+    .preview th, .preview td {
+      padding: 4px 8px;
+      border: 1px solid var(--vscode-panel-border);
+    }
+
+    .preview blockquote {
+      padding: 0 12px;
+      border-left: 4px solid var(--vscode-textBlockQuote-border);
+      background-color: var(--vscode-textBlockQuote-background);
+    }
+
+    .preview .hljs-keyword, .preview .hljs-literal, .preview .hljs-built_in, .preview .hljs-type,
+    .preview .hljs-tag, .preview .hljs-name, .preview .hljs-meta {
+      color: var(--vscode-symbolIcon-keywordForeground);
+    }
+
+    .preview .hljs-string, .preview .hljs-regexp {
+      color: var(--vscode-debugTokenExpression-string);
+    }
+
+    .preview .hljs-number {
+      color: var(--vscode-debugTokenExpression-number);
+    }
+
+    .preview .hljs-comment, .preview .hljs-quote {
+      color: var(--vscode-descriptionForeground);
+      font-style: italic;
+    }
+
+    .preview .hljs-title, .preview .hljs-section {
+      color: var(--vscode-symbolIcon-functionForeground);
+    }
+
+    .preview .hljs-attr, .preview .hljs-attribute, .preview .hljs-variable, .preview .hljs-params,
+    .preview .hljs-property {
+      color: var(--vscode-debugTokenExpression-name);
+    }
+
     textarea {
       flex: 1;
-      width: 100%;
+      min-width: 0;
       padding: 12px;
       border: none;
       outline: none;
@@ -333,6 +956,18 @@ function getWebviewContent(preservedText: string = ''): string {
       margin-bottom: 8px;
     }
 
+    .empty-message {
+      color: var(--vscode-descriptionForeground);
+      font-size: 11px;
+    }
+
+    .range-file {
+      flex-basis: 100%;
+      font-size: 11px;
+      font-family: var(--vscode-editor-font-family);
+      color: var(--vscode-descriptionForeground);
+    }
+
     .range-item {
       display: flex;
       align-items: center;
@@ -365,43 +1000,333 @@ function getWebviewContent(preservedText: string = ''): string {
     .button-remove:hover {
       color: var(--vscode-errorForeground);
     }
+
+    .ranges-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: baseline;
+    }
+
+    .next-emphasis {
+      font-size: 11px;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    select {
+      background-color: var(--vscode-dropdown-background);
+      color: var(--vscode-dropdown-foreground);
+      border: 1px solid var(--vscode-dropdown-border);
+      font-size: 11px;
+    }
+
+    .range-before {
+      box-shadow: inset 3px 0 0 rgba(239, 68, 68, 0.8);
+    }
+
+    .range-after {
+      box-shadow: inset 3px 0 0 rgba(34, 197, 94, 0.8);
+    }
+
+    .range-secondary {
+      opacity: 0.8;
+    }
+
+    .button-label {
+      background: none;
+      border: none;
+      padding: 0;
+      font-size: 11px;
+    }
+
+    .speaker-notes {
+      display: flex;
+      flex-direction: column;
+      border-top: 1px solid var(--vscode-panel-border);
+    }
+
+    .speaker-notes summary {
+      padding: 8px 12px;
+      font-size: 12px;
+      font-weight: 600;
+      cursor: pointer;
+      color: var(--vscode-foreground);
+    }
+
+    .speaker-notes-hint {
+      font-weight: normal;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .speaker-notes textarea {
+      width: 100%;
+      height: 15vh;
+      border-top: 1px solid var(--vscode-panel-border);
+    }
+
+    .lesson-notes {
+      max-height: 30vh;
+      overflow-y: auto;
+      border-top: 1px solid var(--vscode-panel-border);
+    }
+
+    .lesson-notes summary {
+      padding: 8px 12px;
+      font-size: 12px;
+      font-weight: 600;
+      cursor: pointer;
+      color: var(--vscode-foreground);
+    }
+
+    .notes-list {
+      list-style: none;
+      padding: 0 12px 8px;
+    }
+
+    .note-item {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      padding: 3px 6px;
+      border-radius: 3px;
+      font-size: 12px;
+      cursor: grab;
+    }
+
+    .note-item:hover {
+      background-color: var(--vscode-list-hoverBackground);
+    }
+
+    .note-item-editing {
+      background-color: var(--vscode-list-activeSelectionBackground);
+      color: var(--vscode-list-activeSelectionForeground);
+    }
+
+    .note-item.drag-over {
+      border-top: 2px solid var(--vscode-focusBorder);
+    }
+
+    .note-index {
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .note-text {
+      flex: 1;
+      overflow: hidden;
+      white-space: nowrap;
+      text-overflow: ellipsis;
+    }
+
+    .note-action {
+      padding: 0 4px;
+      border: none;
+      background: none;
+      color: var(--vscode-foreground);
+      font-size: 13px;
+    }
+
+    .note-action:disabled {
+      opacity: 0.3;
+      cursor: default;
+    }
+
+    .note-action-delete:hover {
+      color: var(--vscode-errorForeground);
+    }
   </style>
 </head>
 <body>
-  <div class="section-header">Lecture Notes - ${lessonTitle}</div>
+  <div class="section-header" id="header-title"></div>
   <div class="ranges-container">
-    <div class="ranges-title">Selected Ranges:</div>
-    <div class="ranges-list" id="ranges-list">
-      ${
-        rangesHtml ||
-        '<span style="color: var(--vscode-descriptionForeground); font-size: 11px;">No ranges selected. Select code and press Ctrl+Alt+L to add ranges.</span>'
-      }
+    <div class="ranges-header">
+      <div class="ranges-title">Selected Ranges:</div>
+      <label class="next-emphasis">Next range:
+        <select id="next-range-emphasis"></select>
+      </label>
     </div>
+    <div class="ranges-list" id="ranges-list"></div>
+  </div>
+  <div class="toolbar">
+    <button data-format="bold" title="Bold (Ctrl+B)"><b>B</b></button>
+    <button data-format="italic" title="Italic (Ctrl+I)"><i>I</i></button>
+    <button data-format="code" title="Inline code (Ctrl+E)">&lt;/&gt;</button>
+    <button data-format="link" title="Link (Ctrl+K)">🔗</button>
+    <button data-format="codeBlock" title="Code block">\`\`\`</button>
+    <button id="insert-code-button" title="Insert the highlighted code as a code block">⤓ Highlighted code</button>
+    <span class="toolbar-spacer"></span>
+    <button class="mode-button" data-mode="edit">Edit</button>
+    <button class="mode-button" data-mode="split">Split</button>
+    <button class="mode-button" data-mode="preview">Preview</button>
   </div>
-  <textarea id="markdown-editor" placeholder="Write your lecture notes in Markdown here...">${preservedText
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#39;')}</textarea>
+  <div class="editor-area" id="editor-area">
+    <textarea id="markdown-editor" placeholder="Write your lecture notes in Markdown here..."></textarea>
+    <div class="preview markdown-body" id="preview"></div>
+  </div>
+  <details class="speaker-notes" id="speaker-notes">
+    <summary>Speaker Notes <span class="speaker-notes-hint">(only shown in the presenter view)</span></summary>
+    <textarea id="speaker-notes-editor" placeholder="Private notes for the presenter view, e.g. what to say or ask..."></textarea>
+  </details>
+  <details class="lesson-notes" id="lesson-notes">
+    <summary id="lesson-notes-summary">Lesson Notes</summary>
+    <ul class="notes-list" id="notes-list"></ul>
+  </details>
   <div class="button-container">
     <button class="button-cancel" id="cancel-button">Cancel</button>
     <button class="button-save" id="save-button">Save</button>
   </div>
-  <script>
+  <script nonce="${nonce}">
     const vscode = acquireVsCodeApi();
+    const EMPHASIS_LABELS = ${JSON.stringify(EMPHASIS_LABELS)};
     const editor = document.getElementById('markdown-editor');
+    const speakerNotesEditor = document.getElementById('speaker-notes-editor');
+    const speakerNotesSection = document.getElementById('speaker-notes');
     const saveButton = document.getElementById('save-button');
     const cancelButton = document.getElementById('cancel-button');
+    const rangesList = document.getElementById('ranges-list');
+    const notesList = document.getElementById('notes-list');
+    const lessonNotes = document.getElementById('lesson-notes');
+    const nextRangeEmphasis = document.getElementById('next-range-emphasis');
+    const editorArea = document.getElementById('editor-area');
+    const preview = document.getElementById('preview');
 
-    if (editor) {
-      editor.focus();
+    // State sent by the extension (the source of truth), kept with the text so a reloaded webview can restore it
+    let state = undefined;
+    let notesListOpened = false;
+
+    function persistState() {
+      vscode.setState({
+        state: state,
+        text: editor.value,
+        speakerNotes: speakerNotesEditor.value,
+        selectionStart: editor.selectionStart,
+        selectionEnd: editor.selectionEnd,
+        scrollTop: editor.scrollTop
+      });
+    }
+
+    function createElement(tagName, className, text) {
+      const element = document.createElement(tagName);
+      if (className) {
+        element.className = className;
+      }
+      if (text !== undefined) {
+        element.textContent = text;
+      }
+      return element;
+    }
+
+    function createEmphasisOptions(selected) {
+      return Object.keys(EMPHASIS_LABELS).map(emphasis => {
+        const option = createElement('option', '', EMPHASIS_LABELS[emphasis]);
+        option.value = emphasis;
+        option.selected = emphasis === selected;
+        return option;
+      });
+    }
+
+    function renderRanges() {
+      rangesList.replaceChildren();
+      if (state.files.length === 0) {
+        rangesList.append(
+          createElement(
+            'span',
+            'empty-message',
+            'No ranges selected. Select code in any file and press Ctrl+Alt+L to add ranges.'
+          )
+        );
+        return;
+      }
+
+      state.files.forEach((file, fileIndex) => {
+        const fileName = createElement('div', 'range-file', file.path);
+        fileName.title = file.fullPath;
+        rangesList.append(fileName);
+
+        file.ranges.forEach((range, rangeIndex) => {
+          const item = createElement('div', 'range-item range-' + range.emphasis);
+          item.append(createElement('span', 'range-text', range.label ? range.text + ' · ' + range.label : range.text));
+
+          const select = createElement('select', 'range-emphasis');
+          select.title = 'Emphasis';
+          select.append(...createEmphasisOptions(range.emphasis));
+          const labelButton = createElement('button', 'button-label', '🏷');
+          labelButton.title = 'Set label';
+          const removeButton = createElement('button', 'button-remove', '×');
+          removeButton.title = 'Remove range';
+
+          [select, labelButton, removeButton].forEach(control => {
+            control.dataset.fileIndex = String(fileIndex);
+            control.dataset.rangeIndex = String(rangeIndex);
+          });
+          item.append(select, labelButton, removeButton);
+          rangesList.append(item);
+        });
+      });
+    }
+
+    function renderNotes() {
+      document.getElementById('lesson-notes-summary').textContent = 'Lesson Notes (' + state.notes.length + ')';
+      notesList.replaceChildren();
+      if (state.notes.length === 0) {
+        notesList.append(createElement('li', 'empty-message', 'This lesson has no notes yet.'));
+        return;
+      }
+
+      // Open the list the first time it has notes, afterwards leave it as the user left it
+      if (!notesListOpened) {
+        lessonNotes.open = true;
+        notesListOpened = true;
+      }
+
+      state.notes.forEach((note, index) => {
+        const item = createElement('li', 'note-item' + (note.editing ? ' note-item-editing' : ''));
+        item.draggable = true;
+        item.dataset.noteIndex = String(index);
+
+        const text = createElement('span', 'note-text', note.title);
+        text.title = note.description;
+        item.append(createElement('span', 'note-index', index + 1 + '.'), text);
+
+        const actions = [
+          ['edit', '✎', 'Edit', false],
+          ['up', '↑', 'Move up', index === 0],
+          ['down', '↓', 'Move down', index === state.notes.length - 1],
+          ['delete', '×', 'Delete', false]
+        ];
+        actions.forEach(([action, label, title, disabled]) => {
+          const button = createElement('button', 'note-action' + (action === 'delete' ? ' note-action-delete' : ''), label);
+          button.title = title;
+          button.disabled = disabled;
+          button.dataset.action = action;
+          button.dataset.noteIndex = String(index);
+          item.append(button);
+        });
+        notesList.append(item);
+      });
+    }
+
+    function setEditorMode(mode) {
+      editorArea.className = 'editor-area mode-' + mode;
+      document.querySelectorAll('.mode-button').forEach(button => {
+        button.classList.toggle('active', button.getAttribute('data-mode') === mode);
+      });
+    }
+
+    function renderState(newState) {
+      state = newState;
+      document.getElementById('header-title').textContent = state.headerTitle;
+      saveButton.textContent = state.saveLabel;
+      nextRangeEmphasis.replaceChildren(...createEmphasisOptions(state.nextRangeEmphasis));
+      setEditorMode(state.editorMode);
+      renderRanges();
+      renderNotes();
     }
 
     saveButton.addEventListener('click', () => {
       const text = editor.value;
       vscode.postMessage({
         command: 'save',
-        text: text
+        text: text,
+        speakerNotes: speakerNotesEditor.value
       });
     });
 
@@ -411,26 +1336,243 @@ function getWebviewContent(preservedText: string = ''): string {
       });
     });
 
-    // Handle remove range buttons
-    document.querySelectorAll('.button-remove').forEach(button => {
-      button.addEventListener('click', (e) => {
-        const rangeIndex = parseInt(e.target.getAttribute('data-range-index'));
+    // Handle range buttons (remove, label) - the list is re-rendered, so events are delegated
+    rangesList.addEventListener('click', (event) => {
+      const button = event.target.closest('button');
+      if (!button) {
+        return;
+      }
+      const fileIndex = parseInt(button.dataset.fileIndex);
+      const rangeIndex = parseInt(button.dataset.rangeIndex);
+      if (button.classList.contains('button-remove')) {
         vscode.postMessage({
           command: 'removeRange',
+          fileIndex: fileIndex,
           rangeIndex: rangeIndex
         });
+      } else if (button.classList.contains('button-label')) {
+        vscode.postMessage({ command: 'setRangeLabel', fileIndex: fileIndex, rangeIndex: rangeIndex });
+      }
+    });
+
+    // Handle range emphasis changes
+    rangesList.addEventListener('change', (event) => {
+      const select = event.target;
+      if (!select.classList.contains('range-emphasis')) {
+        return;
+      }
+      select.closest('.range-item').className = 'range-item range-' + select.value;
+      vscode.postMessage({
+        command: 'setRangeEmphasis',
+        fileIndex: parseInt(select.dataset.fileIndex),
+        rangeIndex: parseInt(select.dataset.rangeIndex),
+        emphasis: select.value
       });
     });
 
-    // Send text updates to extension whenever text changes (for preservation during range updates)
-    if (editor) {
-      editor.addEventListener('input', () => {
+    nextRangeEmphasis.addEventListener('change', () => {
+      if (state) {
+        state.nextRangeEmphasis = nextRangeEmphasis.value;
+        persistState();
+      }
+      vscode.postMessage({ command: 'setNextRangeEmphasis', emphasis: nextRangeEmphasis.value });
+    });
+
+    // Handle lesson note actions (edit, move, delete)
+    notesList.addEventListener('click', (event) => {
+      const button = event.target.closest('.note-action');
+      if (!button) {
+        return;
+      }
+      event.stopPropagation();
+      const action = button.dataset.action;
+      const noteIndex = parseInt(button.dataset.noteIndex);
+      if (action === 'edit') {
+        vscode.postMessage({ command: 'editNote', noteIndex: noteIndex });
+      } else if (action === 'delete') {
+        vscode.postMessage({ command: 'deleteNote', noteIndex: noteIndex });
+      } else if (action === 'up' || action === 'down') {
         vscode.postMessage({
-          command: 'updateText',
-          text: editor.value
+          command: 'moveNote',
+          fromIndex: noteIndex,
+          toIndex: action === 'up' ? noteIndex - 1 : noteIndex + 1
         });
+      }
+    });
+
+    // Handle drag and drop reordering of lesson notes
+    let draggedNoteIndex = null;
+    notesList.addEventListener('dragstart', (e) => {
+      const item = e.target.closest('.note-item');
+      if (item) {
+        draggedNoteIndex = parseInt(item.dataset.noteIndex);
+        e.dataTransfer.effectAllowed = 'move';
+      }
+    });
+    notesList.addEventListener('dragover', (e) => {
+      const item = e.target.closest('.note-item');
+      if (item) {
+        e.preventDefault();
+        item.classList.add('drag-over');
+      }
+    });
+    notesList.addEventListener('dragleave', (e) => {
+      const item = e.target.closest('.note-item');
+      if (item) {
+        item.classList.remove('drag-over');
+      }
+    });
+    notesList.addEventListener('drop', (e) => {
+      const item = e.target.closest('.note-item');
+      if (!item) {
+        return;
+      }
+      e.preventDefault();
+      item.classList.remove('drag-over');
+      const targetIndex = parseInt(item.dataset.noteIndex);
+      if (draggedNoteIndex !== null && draggedNoteIndex !== targetIndex) {
+        vscode.postMessage({ command: 'moveNote', fromIndex: draggedNoteIndex, toIndex: targetIndex });
+      }
+      draggedNoteIndex = null;
+    });
+
+    // Send text updates to extension whenever text changes (it keeps the text while the panel is hidden)
+    editor.addEventListener('input', () => {
+      vscode.postMessage({
+        command: 'updateText',
+        text: editor.value
+      });
+      persistState();
+      schedulePreview();
+    });
+    speakerNotesEditor.addEventListener('input', () => {
+      vscode.postMessage({
+        command: 'updateSpeakerNotes',
+        speakerNotes: speakerNotesEditor.value
+      });
+      persistState();
+    });
+    // Remember the cursor and scroll position too
+    ['select', 'keyup', 'mouseup', 'scroll'].forEach(eventName => editor.addEventListener(eventName, persistState));
+
+    // Markdown is rendered by the extension (same renderer as the markdown preview)
+    let previewTimer = undefined;
+
+    function schedulePreview() {
+      if (editorArea.classList.contains('mode-edit')) {
+        return;
+      }
+      clearTimeout(previewTimer);
+      previewTimer = setTimeout(() => {
+        vscode.postMessage({ command: 'renderPreview', text: editor.value });
+      }, 150);
+    }
+
+    document.querySelectorAll('.mode-button').forEach(button => {
+      button.addEventListener('click', () => {
+        const mode = button.getAttribute('data-mode');
+        setEditorMode(mode);
+        if (state) {
+          state.editorMode = mode;
+          persistState();
+        }
+        vscode.postMessage({ command: 'setEditorMode', mode: mode });
+        schedulePreview();
+        if (mode !== 'preview') {
+          editor.focus();
+        }
       });
+    });
+
+    // Insert text at the cursor through the browser's editing commands so undo keeps working
+    function insertText(text, selectFrom, selectTo) {
+      editor.focus();
+      const start = editor.selectionStart;
+      document.execCommand('insertText', false, text);
+      if (selectFrom !== undefined) {
+        editor.setSelectionRange(start + selectFrom, start + selectTo);
+      }
+    }
+
+    // Wrap the selected text (or a placeholder) with markdown syntax
+    function wrapSelection(before, after, placeholder) {
+      const selected = editor.value.slice(editor.selectionStart, editor.selectionEnd) || placeholder;
+      insertText(before + selected + after, before.length, before.length + selected.length);
+    }
+
+    function applyFormat(format) {
+      if (format === 'bold') {
+        wrapSelection('**', '**', 'bold text');
+      } else if (format === 'italic') {
+        wrapSelection('_', '_', 'italic text');
+      } else if (format === 'code') {
+        wrapSelection('\`', '\`', 'code');
+      } else if (format === 'link') {
+        const selected = editor.value.slice(editor.selectionStart, editor.selectionEnd) || 'link text';
+        const text = '[' + selected + '](https://)';
+        insertText(text, selected.length + 3, text.length - 1);
+      } else if (format === 'codeBlock') {
+        wrapSelection('\\n\`\`\`\\n', '\\n\`\`\`\\n', 'code');
+      }
+    }
+
+    document.querySelectorAll('[data-format]').forEach(button => {
+      button.addEventListener('click', () => applyFormat(button.getAttribute('data-format')));
+    });
+
+    document.getElementById('insert-code-button').addEventListener('click', () => {
+      vscode.postMessage({ command: 'insertHighlightedCode' });
+    });
+
+    editor.addEventListener('keydown', (event) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || event.shiftKey) {
+        return;
+      }
+      const formats = { b: 'bold', i: 'italic', e: 'code', k: 'link' };
+      const format = formats[event.key.toLowerCase()];
+      if (format) {
+        event.preventDefault();
+        applyFormat(format);
+      }
+    });
+
+    window.addEventListener('message', (event) => {
+      const message = event.data;
+      if (message.command === 'state') {
+        renderState(message.state);
+        // The text is only sent when the extension changed it (e.g. a note was opened for editing),
+        // so typing is never interrupted and the cursor and undo history stay intact
+        if (typeof message.text === 'string' && message.text !== editor.value) {
+          editor.value = message.text;
+          editor.setSelectionRange(editor.value.length, editor.value.length);
+          editor.focus();
+        }
+        if (typeof message.speakerNotes === 'string' && message.speakerNotes !== speakerNotesEditor.value) {
+          speakerNotesEditor.value = message.speakerNotes;
+          speakerNotesSection.open = message.speakerNotes.length > 0;
+        }
+        persistState();
+        schedulePreview();
+      } else if (message.command === 'preview') {
+        preview.innerHTML = message.html;
+      } else if (message.command === 'insertText') {
+        insertText('\\n' + message.text + '\\n');
+      }
+    });
+
+    // Restore the last state right away (e.g. after the panel was hidden), then ask the extension for the current one
+    const savedState = vscode.getState();
+    if (savedState && savedState.state) {
+      renderState(savedState.state);
+      editor.value = savedState.text || '';
+      editor.setSelectionRange(savedState.selectionStart || 0, savedState.selectionEnd || 0);
+      editor.scrollTop = savedState.scrollTop || 0;
+      speakerNotesEditor.value = savedState.speakerNotes || '';
+      speakerNotesSection.open = speakerNotesEditor.value.length > 0;
+      schedulePreview();
     }
+    editor.focus();
+    vscode.postMessage({ command: 'ready' });
 
     // Handle Escape key to cancel
     document.addEventListener('keydown', (event) => {
@@ -446,7 +1588,8 @@ function getWebviewContent(preservedText: string = ''): string {
         const text = editor.value;
         vscode.postMessage({
           command: 'save',
-          text: text
+          text: text,
+          speakerNotes: speakerNotesEditor.value
         });
       }
     });
@@ -1,54 +1,159 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
-import {lessonManager} from './lessonManager';
+import {AutoPlayCountdown, getNoteDurationSeconds, shouldLoopAutoPlay} from './autoPlay';
+import {lessonManager, LessonsChangeEvent} from './lessonManager';
 import {decorationManager} from './decorationManager';
-import {LectureNote} from './types';
+import {NoteTreeElement} from './lessonsTreeView';
+import {logger} from './logger';
+import {countNoteRanges, ShownNoteFile, showNoteFiles, withNoteFiles} from './noteFiles';
+import {showNoteQuickPick} from './noteQuickPick';
+import {PresenterView} from './presenterView';
+import {ReviewPanel} from './reviewPanel';
+import {Typewriter} from './typewriter';
+import {CodeNote, LectureNote} from './types';
+import {formatNoteFile} from './workspaceFolders';
 
 const REVIEW_CONTEXT_KEY = 'codeHighlight.reviewMode';
-const REVIEW_SCHEME = 'academeez-lecture-notes-review';
-const REVIEW_URI = vscode.Uri.parse(`${REVIEW_SCHEME}:/lecture-notes.md`);
+// Workspace state key storing the last reviewed note index per lesson ID
+const LAST_REVIEWED_STATE_KEY = 'codeHighlight.lastReviewedNotes';
 
-class NotesReviewContentProvider implements vscode.TextDocumentContentProvider {
-  private readonly _onDidChange = new vscode.EventEmitter<vscode.Uri>();
-  readonly onDidChange = this._onDidChange.event;
+export class NotesReviewController {
+  private lessonId: number | undefined;
+  private lessonNotes: LectureNote[] = [];
+  private currentIndex: number = 0;
+  private revealedRanges: number = 0; // Ranges of the current note revealed so far, for step-through notes
+  private readonly reviewPanel = new ReviewPanel();
+  private readonly presenterView = new PresenterView();
+  private readonly autoPlay = new AutoPlayCountdown();
+  private readonly typewriter = new Typewriter();
+  private typewriterPending: boolean = false; // The code of the current note is still to be typed
+  private typedNoteIndex: number | undefined; // Index of the note whose code was last typed
 
-  private markdown: string = '';
+  constructor(private readonly context: vscode.ExtensionContext) {}
 
-  provideTextDocumentContent(): string {
-    return this.markdown;
+  register(): void {
+    this.context.subscriptions.push(
+      vscode.commands.registerCommand('code-highlight.reviewNotes', async () => this.start()),
+      vscode.commands.registerCommand('code-highlight.reviewFromNote', async (element?: NoteTreeElement) =>
+        this.startFromNote(element)
+      ),
+      vscode.commands.registerCommand('code-highlight.resumeReview', async () => this.resume()),
+      vscode.commands.registerCommand('code-highlight.reviewNextNote', async () => this.navigate(() => this.next())),
+      vscode.commands.registerCommand('code-highlight.reviewPrevNote', async () => this.navigate(() => this.prev())),
+      vscode.commands.registerCommand('code-highlight.reviewFirstNote', async () => this.navigate(() => this.goTo(0))),
+      vscode.commands.registerCommand('code-highlight.reviewLastNote', async () =>
+        this.navigate(() => this.goTo(this.lessonNotes.length - 1))
+      ),
+      vscode.commands.registerCommand('code-highlight.reviewGoToNote', async () => this.promptGoTo()),
+      vscode.commands.registerCommand('code-highlight.exitReviewNotes', async () => this.stop()),
+      vscode.commands.registerCommand('code-highlight.openPresenterView', async () => this.openPresenterView()),
+      vscode.commands.registerCommand('code-highlight.startAutoPlay', async () => this.startAutoPlay()),
+      vscode.commands.registerCommand('code-highlight.pauseAutoPlay', async () => this.autoPlay.pause()),
+      vscode.commands.registerCommand('code-highlight.resumeAutoPlay', async () => this.autoPlay.resume()),
+      vscode.commands.registerCommand('code-highlight.skipAutoPlayNote', async () => this.skipAutoPlayNote()),
+      vscode.commands.registerCommand('code-highlight.pauseTypewriter', async () => this.typewriter.pause()),
+      vscode.commands.registerCommand('code-highlight.resumeTypewriter', async () => this.typewriter.resume()),
+      vscode.commands.registerCommand('code-highlight.skipTypewriter', async () => this.typewriter.finish()),
+      lessonManager.onDidChangeLessons(event => this.onLessonsChanged(event)),
+      // Closing the review panel ends the review
+      this.reviewPanel.onDidClose(() => this.end()),
+      this.autoPlay.onDidElapse(() => this.autoAdvance()),
+      this.typewriter.onDidFinish(() => this.onTypewriterFinished()),
+      this.reviewPanel,
+      this.presenterView,
+      this.autoPlay,
+      this.typewriter
+    );
   }
 
-  setMarkdown(markdown: string): void {
-    this.markdown = markdown;
-    this._onDidChange.fire(REVIEW_URI);
+  /**
+   * Keep the notes under review in sync with the lesson files, ending the review if its lesson is gone
+   */
+  private async onLessonsChanged(event: LessonsChangeEvent): Promise<void> {
+    const lessonId = this.lessonId;
+    if (
+      lessonId === undefined ||
+      !(
+        event.masterStateChanged ||
+        event.changedLessonIds.includes(lessonId) ||
+        event.deletedLessonIds.includes(lessonId)
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const lessonExists = lessonManager.getAllLessons().some(lesson => lesson.id === lessonId);
+      const lesson = lessonExists ? lessonManager.getLessonById(lessonId) : null;
+      if (!lesson || lesson.notes.length === 0) {
+        const reason = lesson ? 'no longer has notes' : 'was deleted';
+        await this.end();
+        vscode.window.showWarningMessage(`The lesson under review ${reason}. The review has ended.`);
+        return;
+      }
+
+      // Show the current note again if it was changed, e.g. edited or replaced by another note
+      const shownNote = JSON.stringify(this.lessonNotes[this.currentIndex]);
+      this.lessonNotes = [...lesson.notes];
+      this.currentIndex = Math.min(this.currentIndex, this.lessonNotes.length - 1);
+      const stepCount = getStepCount(this.lessonNotes[this.currentIndex]);
+      this.revealedRanges = Math.min(Math.max(this.revealedRanges, 1), stepCount);
+      if (JSON.stringify(this.lessonNotes[this.currentIndex]) !== shownNote) {
+        await this.showCurrent();
+      } else {
+        // The next note, the lesson title or its time budget may have changed
+        await this.showInPresenterView();
+      }
+    } catch (error) {
+      // Runs from a file watcher, so nothing else would report the error
+      logger.error('Failed to update the review after the lessons changed', error);
+      vscode.window.showWarningMessage(
+        `Could not update the review: ${error instanceof Error ? error.message : 'Failed to show the current note'}`
+      );
+    }
   }
-}
 
-export class NotesReviewController {
-  private provider: NotesReviewContentProvider | undefined;
-  private lessonNotes: LectureNote[] = [];
-  private currentIndex: number = 0;
-  private previewOpened: boolean = false;
+  /**
+   * Start reviewing at a note picked in the lessons tree (activating its lesson if needed),
+   * or at a note picked from a quick pick of the active lesson's notes
+   */
+  private async startFromNote(element?: NoteTreeElement): Promise<void> {
+    if (!element) {
+      const activeLesson = lessonManager.getActiveLesson();
+      if (!activeLesson) {
+        vscode.window.showErrorMessage('No active lesson. Please create or select a lesson first.');
+        return;
+      }
 
-  constructor(private readonly context: vscode.ExtensionContext) {}
+      if (activeLesson.notes.length === 0) {
+        vscode.window.showInformationMessage('No lecture notes found in the active lesson.');
+        return;
+      }
 
-  register(): void {
-    if (!this.provider) {
-      this.provider = new NotesReviewContentProvider();
-      this.context.subscriptions.push(
-        vscode.workspace.registerTextDocumentContentProvider(REVIEW_SCHEME, this.provider)
+      const noteIndex = await showNoteQuickPick(
+        activeLesson.notes,
+        'Select the note to start reviewing from',
+        this.getLastReviewedIndex(activeLesson.id),
+        'last reviewed'
       );
+      if (noteIndex !== undefined) {
+        await this.start(noteIndex);
+      }
+      return;
     }
 
-    this.context.subscriptions.push(
-      vscode.commands.registerCommand('code-highlight.reviewNotes', async () => this.start()),
-      vscode.commands.registerCommand('code-highlight.reviewNextNote', async () => this.next()),
-      vscode.commands.registerCommand('code-highlight.reviewPrevNote', async () => this.prev()),
-      vscode.commands.registerCommand('code-highlight.exitReviewNotes', async () => this.stop())
-    );
+    try {
+      if (lessonManager.getActiveLessonId() !== element.lessonId) {
+        await lessonManager.setActiveLesson(element.lessonId);
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(error instanceof Error ? error.message : 'Failed to set active lesson');
+      return;
+    }
+
+    await this.start(element.noteIndex);
   }
 
-  private async start(): Promise<void> {
+  private async start(startIndex: number = 0): Promise<void> {
     const activeLesson = lessonManager.getActiveLesson();
     if (!activeLesson) {
       vscode.window.showErrorMessage('No active lesson. Please create or select a lesson first.');
@@ -60,131 +165,429 @@ export class NotesReviewController {
       return;
     }
 
+    this.lessonId = activeLesson.id;
     this.lessonNotes = [...activeLesson.notes];
-    this.currentIndex = 0;
-    this.previewOpened = false;
+    this.moveTo(Math.min(Math.max(startIndex, 0), this.lessonNotes.length - 1));
+    this.presenterView.startTimer();
 
     await vscode.commands.executeCommand('setContext', REVIEW_CONTEXT_KEY, true);
     await this.showCurrent();
+    // Focus the review panel (it may already be open from a previous start) so the review keybindings apply
+    this.reviewPanel.reveal();
+  }
+
+  /**
+   * Start reviewing the active lesson at the note where the last review stopped
+   */
+  private async resume(): Promise<void> {
+    const activeLessonId = lessonManager.getActiveLessonId();
+    const lastIndex = activeLessonId === null ? undefined : this.getLastReviewedIndex(activeLessonId);
+    await this.start(lastIndex ?? 0);
   }
 
   private async stop(): Promise<void> {
+    await this.end();
+  }
+
+  /**
+   * Open the speaker-only presenter view, starting a review of the active lesson if none is running
+   */
+  private async openPresenterView(): Promise<void> {
+    if (this.lessonId === undefined) {
+      await this.start();
+      if (this.lessonId === undefined) {
+        return;
+      }
+    }
+
+    this.presenterView.open();
+    await this.showInPresenterView();
+  }
+
+  /**
+   * Let the review advance on its own, starting a review of the active lesson if none is running
+   */
+  private async startAutoPlay(): Promise<void> {
+    if (this.lessonId === undefined) {
+      await this.start();
+      if (this.lessonId === undefined) {
+        return;
+      }
+    }
+
+    await this.autoPlay.start(this.getStepDurationSeconds());
+  }
+
+  /**
+   * Advance auto-play right away instead of waiting for the countdown
+   */
+  private async skipAutoPlayNote(): Promise<void> {
+    if (this.autoPlay.isActive()) {
+      await this.autoAdvance();
+    }
+  }
+
+  /**
+   * Go to the next step of the review when the auto-play countdown elapses, starting over at the first note
+   * after the last one when looping
+   */
+  private async autoAdvance(): Promise<void> {
+    if (this.lessonId === undefined) {
+      return;
+    }
+
+    const atEnd =
+      this.currentIndex >= this.lessonNotes.length - 1 &&
+      this.revealedRanges >= getStepCount(this.lessonNotes[this.currentIndex]);
+    if (atEnd && !shouldLoopAutoPlay()) {
+      await this.autoPlay.stop();
+      vscode.window.showInformationMessage('Auto-play reached the end of the lesson.');
+      return;
+    }
+
+    try {
+      if (atEnd) {
+        await this.showStep(() => this.moveTo(0));
+      } else {
+        await this.next();
+      }
+    } catch (error) {
+      // Nobody may be watching, so stop rather than keep failing on every countdown
+      await this.autoPlay.stop();
+      vscode.window.showErrorMessage(
+        `Auto-play stopped: ${error instanceof Error ? error.message : 'Failed to show the next note'}`
+      );
+    }
+  }
+
+  /**
+   * Get how long auto-play shows the current step: the note's duration, shared by the ranges of a
+   * step-through note
+   */
+  private getStepDurationSeconds(): number {
+    const note = this.lessonNotes[this.currentIndex];
+    return note ? getNoteDurationSeconds(note) / Math.max(getStepCount(note), 1) : 0;
+  }
+
+  /**
+   * Show the current note, the next one and the speaker notes in the presenter view (when it is open)
+   */
+  private async showInPresenterView(): Promise<void> {
+    if (!this.presenterView.isOpen() || this.lessonId === undefined) {
+      return;
+    }
+
+    const lesson = lessonManager.getAllLessons().find(l => l.id === this.lessonId);
+    await this.presenterView.show({
+      lessonTitle: lesson?.title ?? '',
+      budgetMinutes: lesson?.estimatedMinutes,
+      notes: this.lessonNotes,
+      index: this.currentIndex,
+    });
+  }
+
+  /**
+   * Leave review mode, closing the review panel and the presenter view but keeping the code editors open
+   */
+  private async end(): Promise<void> {
+    this.lessonId = undefined;
     this.lessonNotes = [];
     this.currentIndex = 0;
-    this.previewOpened = false;
+    this.revealedRanges = 0;
+    this.typewriterPending = false;
+    this.typedNoteIndex = undefined;
+    this.reviewPanel.close();
+    this.presenterView.close();
+    await this.autoPlay.stop();
+    await this.typewriter.end();
     decorationManager.requestClear();
     await vscode.commands.executeCommand('setContext', REVIEW_CONTEXT_KEY, false);
-
-    // Assumes the markdown preview is focused when exiting via Escape.
-    await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
   }
 
+  /**
+   * Reveal the next range of a step-through note, or go to the next note once all ranges are revealed
+   */
   private async next(): Promise<void> {
     if (this.lessonNotes.length === 0) {
       return;
     }
+    if (this.revealedRanges < getStepCount(this.lessonNotes[this.currentIndex])) {
+      await this.showStep(() => (this.revealedRanges += 1));
+      return;
+    }
     if (this.currentIndex >= this.lessonNotes.length - 1) {
       vscode.window.showInformationMessage('Reached the end of the lecture notes.');
       return;
     }
-    this.currentIndex += 1;
-    await this.showCurrent();
+    await this.showStep(() => this.moveTo(this.currentIndex + 1));
   }
 
+  /**
+   * Hide the last revealed range of a step-through note, or go back to the previous note with all of its
+   * ranges revealed
+   */
   private async prev(): Promise<void> {
     if (this.lessonNotes.length === 0) {
       return;
     }
+    if (this.revealedRanges > 1) {
+      await this.showStep(() => (this.revealedRanges -= 1));
+      return;
+    }
     if (this.currentIndex <= 0) {
       vscode.window.showInformationMessage('Already at the first lecture note.');
       return;
     }
-    this.currentIndex -= 1;
-    await this.showCurrent();
+    await this.showStep(() => this.moveTo(this.currentIndex - 1, true));
+  }
+
+  /**
+   * Jump directly to a note by index while in review mode
+   */
+  private async goTo(index: number): Promise<void> {
+    if (this.lessonNotes.length === 0 || index < 0 || index >= this.lessonNotes.length) {
+      return;
+    }
+    if (index === this.currentIndex) {
+      return;
+    }
+    await this.showStep(() => this.moveTo(index));
   }
 
-  private async focusPreviewPanel(textEditorColumn?: vscode.ViewColumn): Promise<void> {
-    // Restore focus to the preview panel so arrow keys continue to work
-    // Markdown previews are webviews shown in an editor group
-    // We should NOT open the document as a text editor - just focus the preview group
+  /**
+   * Run a review navigation command, warning instead of failing when the note cannot be shown, e.g. because
+   * its file was deleted or renamed
+   */
+  private async navigate(move: () => Promise<void>): Promise<void> {
+    try {
+      await move();
+    } catch (error) {
+      vscode.window.showWarningMessage(
+        `Could not show the note: ${error instanceof Error ? error.message : 'Failed to open its code'}`
+      );
+    }
+  }
 
-    // Use a small delay to ensure the file opening has completed
-    await new Promise(resolve => setTimeout(resolve, 50));
+  /**
+   * Move through the review and show the new step, staying on the current step if it cannot be shown
+   */
+  private async showStep(move: () => void): Promise<void> {
+    const previousIndex = this.currentIndex;
+    const previousRevealedRanges = this.revealedRanges;
+    move();
+    try {
+      await this.showCurrent();
+    } catch (error) {
+      this.currentIndex = previousIndex;
+      this.revealedRanges = previousRevealedRanges;
+      this.typewriterPending = false;
+      await this.saveLastReviewedIndex();
+      await this.showInPresenterView();
+      throw error;
+    }
+  }
 
-    // Simply focus the next editor group (where the preview is)
-    // This won't open any new documents, just focus the existing preview
-    await vscode.commands.executeCommand('workbench.action.focusNextGroup');
+  /**
+   * Make a note the current one, with only the first range of a step-through note revealed, or all of them
+   * when stepping back into it
+   */
+  private moveTo(index: number, allRangesRevealed: boolean = false): void {
+    this.currentIndex = index;
+    this.typewriterPending = true;
+    const stepCount = getStepCount(this.lessonNotes[index]);
+    this.revealedRanges = allRangesRevealed ? stepCount : Math.min(stepCount, 1);
   }
 
+  /**
+   * Ask for a note number and jump to it while in review mode
+   */
+  private async promptGoTo(): Promise<void> {
+    if (this.lessonNotes.length === 0) {
+      vscode.window.showInformationMessage('Review mode is not active.');
+      return;
+    }
+
+    const noteCount = this.lessonNotes.length;
+    const value = await vscode.window.showInputBox({
+      prompt: `Go to note (1-${noteCount})`,
+      value: String(this.currentIndex + 1),
+      validateInput: input => {
+        const parsed = Number(input);
+        if (!Number.isInteger(parsed) || parsed < 1 || parsed > noteCount) {
+          return `Note number must be between 1 and ${noteCount}`;
+        }
+        return null;
+      },
+    });
+
+    if (value) {
+      await this.navigate(() => this.goTo(Number(value) - 1));
+    }
+  }
+
+  private getLastReviewedIndex(lessonId: number): number | undefined {
+    const lastReviewed = this.context.workspaceState.get<Record<string, number>>(LAST_REVIEWED_STATE_KEY, {});
+    return lastReviewed[String(lessonId)];
+  }
+
+  private async saveLastReviewedIndex(): Promise<void> {
+    if (this.lessonId === undefined) {
+      return;
+    }
+    const lastReviewed = this.context.workspaceState.get<Record<string, number>>(LAST_REVIEWED_STATE_KEY, {});
+    await this.context.workspaceState.update(LAST_REVIEWED_STATE_KEY, {
+      ...lastReviewed,
+      [String(this.lessonId)]: this.currentIndex,
+    });
+  }
+
+  /**
+   * Store re-located ranges of the current note and warn about ranges that could not be found
+   */
+  private async applyRelocation(note: CodeNote, shownFiles: ShownNoteFile[]): Promise<void> {
+    const lostFiles = shownFiles.filter(({relocation}) => relocation.lostRanges.length > 0);
+    if (lostFiles.length > 0) {
+      const lostLines = lostFiles
+        .map(({fileRanges, relocation}) => {
+          const lines = relocation.lostRanges.map(([start, end]) => `${start + 1}-${end + 1}`).join(', ');
+          return `lines ${lines} in ${formatNoteFile(fileRanges)}`;
+        })
+        .join(' and ');
+      vscode.window.showWarningMessage(
+        `Note ${this.currentIndex + 1}: could not relocate ${lostLines}. ` +
+          'The code changed too much - edit the note to select the ranges again.'
+      );
+      // Keep the stored ranges untouched so nothing is lost if the code is restored
+      return;
+    }
+
+    if (!shownFiles.some(({relocation}) => relocation.changed)) {
+      return;
+    }
+    // Ranges found in code typed during the review would be stored against text that is restored afterwards
+    if (shownFiles.some(({editor}) => this.typewriter.hasEdits(editor.document.uri))) {
+      return;
+    }
+
+    const updatedNote = withNoteFiles(
+      note,
+      shownFiles.map(({fileRanges, relocation}) => ({
+        ...fileRanges,
+        ranges: relocation.ranges,
+        anchors: relocation.anchors,
+      }))
+    );
+    this.lessonNotes[this.currentIndex] = updatedNote;
+
+    if (this.lessonId === undefined) {
+      return;
+    }
+
+    try {
+      await lessonManager.updateNote(this.lessonId, this.currentIndex, updatedNote);
+      logger.info(`Updated ranges of note ${this.currentIndex + 1} in ${formatNoteFile(note)} after code changes`);
+    } catch (error) {
+      logger.error(`Failed to update ranges of note ${this.currentIndex + 1}`, error);
+    }
+  }
+
+  /**
+   * Open the files of a code note beside the review panel and highlight its (revealed) ranges
+   */
+  private async showNoteCode(note: CodeNote): Promise<ShownNoteFile[]> {
+    // Open the files from the column of a visible text editor (webviews such as the review panel are not
+    // text editors), so they do not replace the review panel
+    const targetColumn = vscode.window.visibleTextEditors[0]?.viewColumn ?? vscode.ViewColumn.One;
+    const shownFiles = await showNoteFiles(note, targetColumn, {
+      preserveFocus: true,
+      revealedRangeCount: note.stepThrough ? this.revealedRanges : undefined,
+    });
+    await this.applyRelocation(note, shownFiles);
+
+    if (shownFiles.every(({relocation}) => relocation.ranges.length === 0)) {
+      decorationManager.requestClear();
+    }
+    return shownFiles;
+  }
+
+  /**
+   * Highlight the code of the current note again once its code was typed, as the highlight only roughly
+   * follows the typing, and start counting down to the next note
+   */
+  private async onTypewriterFinished(): Promise<void> {
+    const note = this.lessonNotes[this.currentIndex];
+    if (note?.type !== 'code' || this.typedNoteIndex !== this.currentIndex) {
+      return;
+    }
+
+    this.autoPlay.restart(this.getStepDurationSeconds());
+
+    try {
+      await this.showNoteCode(note);
+    } catch (error) {
+      logger.error(`Failed to highlight the typed code of note ${this.currentIndex + 1}`, error);
+    }
+  }
+
+  /**
+   * Show the current note in the review panel and highlight its code. The code editors are opened without
+   * taking the focus, so the review panel stays focused and keeps receiving the review keybindings.
+   */
   private async showCurrent(): Promise<void> {
     const note = this.lessonNotes[this.currentIndex];
-    if (!note || !this.provider) {
+    if (!note || this.lessonId === undefined) {
       return;
     }
 
+    // Complete the code still being typed for the previous note before showing another one
+    await this.typewriter.finish();
+    let typing = false;
+
+    // Remember where we are so the review can be resumed later
+    await this.saveLastReviewedIndex();
+    await this.showInPresenterView();
+
     // Navigate/highlight code for code notes
-    if (note.type === 'code') {
-      const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-      if (workspaceFolder) {
-        const absolutePath = path.join(workspaceFolder.uri.fsPath, note.file);
-        const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(absolutePath));
-
-        // Find an editor column that contains text editors (not preview)
-        // Since the preview panel might have focus, we need to find a text editor column
-        let targetColumn = vscode.ViewColumn.One;
-
-        // Try to find any visible text editor that's not our review preview document
-        for (const visibleEditor of vscode.window.visibleTextEditors) {
-          if (visibleEditor.document.uri.scheme !== REVIEW_SCHEME) {
-            targetColumn = visibleEditor.viewColumn ?? vscode.ViewColumn.One;
-            break;
-          }
-        }
+    if (note.type === 'code' && vscode.workspace.workspaceFolders?.length) {
+      const shownFiles = await this.showNoteCode(note);
 
-        // Open in the target column (text editor side), not in the focused preview panel
-        const editor = await vscode.window.showTextDocument(doc, {
-          viewColumn: targetColumn,
-          preview: false,
-        });
-
-        // Apply decorations for all ranges, and reveal the first one
-        decorationManager.applyDecorationsForRanges(editor, note.ranges);
-
-        const [startLine, endLine] = note.ranges[0];
-        const endPos = new vscode.Position(endLine, doc.lineAt(endLine).text.length);
-        const revealRange = new vscode.Range(new vscode.Position(startLine, 0), endPos);
-        editor.revealRange(revealRange, vscode.TextEditorRevealType.InCenter);
-        editor.selection = new vscode.Selection(revealRange.start, revealRange.start);
-
-        // Update markdown content first
-        this.provider.setMarkdown(note.markdown);
-
-        // Open preview only once - subsequent updates will refresh automatically via onDidChange
-        if (!this.previewOpened) {
-          await vscode.commands.executeCommand('markdown.showPreviewToSide', REVIEW_URI);
-          this.previewOpened = true;
-        } else {
-          // Restore focus to the preview panel so arrow keys continue to work
-          // The preview is in the column beside the text editor (targetColumn)
-          await this.focusPreviewPanel(targetColumn);
+      // Type the code of a typewriter note once when it is reached, not again for each of its steps
+      const [mainFile] = shownFiles;
+      if (this.typewriterPending && note.typewriterCode !== undefined && mainFile) {
+        this.typewriterPending = false;
+        if (mainFile.relocation.lostRanges.length === 0 && mainFile.relocation.ranges.length > 0) {
+          this.typedNoteIndex = this.currentIndex;
+          // The countdown starts when the typing finishes, so slow typing does not eat into the note's time
+          this.autoPlay.hold();
+          typing = true;
+          await this.typewriter.type(mainFile.editor, mainFile.relocation.ranges[0], note.typewriterCode);
         }
-        return; // Early return for code notes
       }
     } else {
       // General notes don't point to code
       decorationManager.requestClear();
     }
+    this.typewriterPending = false;
 
-    // Update markdown content first
-    this.provider.setMarkdown(note.markdown);
+    const lesson = lessonManager.getAllLessons().find(l => l.id === this.lessonId);
+    await this.reviewPanel.show({
+      lessonTitle: lesson?.title ?? '',
+      markdown: note.markdown,
+      noteNumber: this.currentIndex + 1,
+      noteCount: this.lessonNotes.length,
+      rangeStep: this.revealedRanges > 0 ? {revealed: this.revealedRanges, count: getStepCount(note)} : undefined,
+    });
 
-    // Open preview only once - subsequent updates will refresh automatically via onDidChange
-    if (!this.previewOpened) {
-      await vscode.commands.executeCommand('markdown.showPreviewToSide', REVIEW_URI);
-      this.previewOpened = true;
-    } else {
-      // For general notes, try to focus the preview (it should be in a side column)
-      await this.focusPreviewPanel();
+    // Give the note its full time when auto-play reaches it or the presenter navigates to it
+    if (!typing) {
+      this.autoPlay.restart(this.getStepDurationSeconds());
     }
   }
 }
+
+/**
+ * Get the number of steps of a step-through note (one per range), 0 for notes shown at once
+ */
+function getStepCount(note: LectureNote | undefined): number {
+  return note?.type === 'code' && note.stepThrough ? countNoteRanges(note) : 0;
+}
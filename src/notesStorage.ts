@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import {logger} from './logger';
+import {getLessonsFolder} from './workspaceFolders';
 
 export interface LectureNote {
   file: string;
@@ -13,10 +14,7 @@ export interface LectureNote {
 const NOTES_FILENAME = 'lecture-notes.json';
 
 export async function saveNote(notes: string, file: string, start: number, end: number): Promise<void> {
-  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-  if (!workspaceFolder) {
-    throw new Error('No workspace folder found');
-  }
+  const workspaceFolder = getLessonsFolder();
 
   const vscodeFolder = path.join(workspaceFolder.uri.fsPath, '.vscode');
   const notesFile = path.join(vscodeFolder, NOTES_FILENAME);
@@ -56,12 +54,11 @@ export async function saveNote(notes: string, file: string, start: number, end:
 }
 
 export function getNotesFilePath(): string | undefined {
-  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-  if (!workspaceFolder) {
+  if (!vscode.workspace.workspaceFolders?.length) {
     return undefined;
   }
 
-  return path.join(workspaceFolder.uri.fsPath, '.vscode', NOTES_FILENAME);
+  return path.join(getLessonsFolder().uri.fsPath, '.vscode', NOTES_FILENAME);
 }
 
 export function loadNotes(): LectureNote[] {
@@ -0,0 +1,460 @@
+import * as vscode from 'vscode';
+import {getNonce, renderMarkdown} from './htmlUtils';
+import {getNoteDescription, getNoteTitle} from './noteQuickPick';
+import {LectureNote} from './types';
+
+// View type of the presenter webview, also used in the "when" clauses of the review keybindings
+export const PRESENTER_VIEW_TYPE = 'codeHighlight.presenterView';
+
+/**
+ * The note under review, as shown in the presenter view
+ */
+export interface PresenterNote {
+  lessonTitle: string;
+  budgetMinutes?: number; // Time budget of the lesson (its estimated duration)
+  notes: LectureNote[];
+  index: number;
+}
+
+/**
+ * Everything the presenter webview displays, sent with postMessage
+ */
+interface PresenterState {
+  lessonTitle: string;
+  noteNumber: number;
+  noteCount: number;
+  current: {title: string; description: string; html: string};
+  speakerNotesHtml: string | undefined;
+  next: {title: string; description: string; html: string} | undefined;
+  timer: PresenterTimer & {budgetMinutes?: number};
+}
+
+/**
+ * Time spent presenting, kept while the timer is paused
+ */
+interface PresenterTimer {
+  elapsedMs: number; // Time counted before the timer was last started
+  runningSince: number | undefined; // Date.now() when the timer was last started, undefined while paused
+}
+
+/**
+ * Speaker-only view of a review: the current and next note, the speaker notes, the progress and a timer.
+ * The shared screen keeps showing only the highlighted code and the public markdown.
+ */
+export class PresenterView implements vscode.Disposable {
+  private panel: vscode.WebviewPanel | undefined;
+  private shownNote: PresenterNote | undefined;
+  private timer: PresenterTimer = {elapsedMs: 0, runningSince: undefined};
+
+  /**
+   * Whether the presenter view is open
+   */
+  isOpen(): boolean {
+    return this.panel !== undefined;
+  }
+
+  /**
+   * Open the presenter view beside the editors, or reveal it if it is already open
+   */
+  open(): void {
+    if (this.panel) {
+      this.panel.reveal(undefined, true);
+      return;
+    }
+
+    this.panel = vscode.window.createWebviewPanel(
+      PRESENTER_VIEW_TYPE,
+      'Presenter View',
+      {viewColumn: vscode.ViewColumn.Beside, preserveFocus: true},
+      {enableScripts: true}
+    );
+    this.panel.webview.html = getWebviewContent();
+
+    this.panel.webview.onDidReceiveMessage(async message => {
+      switch (message.command) {
+        case 'ready':
+          await this.postState();
+          break;
+        case 'next':
+          await vscode.commands.executeCommand('code-highlight.reviewNextNote');
+          break;
+        case 'prev':
+          await vscode.commands.executeCommand('code-highlight.reviewPrevNote');
+          break;
+        case 'toggleTimer':
+          this.toggleTimer();
+          await this.postState();
+          break;
+        case 'resetTimer':
+          this.timer = {elapsedMs: 0, runningSince: this.timer.runningSince !== undefined ? Date.now() : undefined};
+          await this.postState();
+          break;
+        case 'exit':
+          await vscode.commands.executeCommand('code-highlight.exitReviewNotes');
+          break;
+      }
+    });
+
+    this.panel.onDidDispose(() => {
+      this.panel = undefined;
+    });
+  }
+
+  /**
+   * Restart the timer, e.g. when a review starts
+   */
+  startTimer(): void {
+    this.timer = {elapsedMs: 0, runningSince: Date.now()};
+  }
+
+  /**
+   * Show a note of the review (the view is only updated while it is open)
+   */
+  async show(note: PresenterNote): Promise<void> {
+    this.shownNote = note;
+    await this.postState();
+  }
+
+  /**
+   * Close the view and forget the review, e.g. when the review ends
+   */
+  close(): void {
+    this.shownNote = undefined;
+    this.panel?.dispose();
+  }
+
+  dispose(): void {
+    this.close();
+  }
+
+  private toggleTimer(): void {
+    const {elapsedMs, runningSince} = this.timer;
+    this.timer =
+      runningSince === undefined
+        ? {elapsedMs, runningSince: Date.now()}
+        : {elapsedMs: elapsedMs + Date.now() - runningSince, runningSince: undefined};
+  }
+
+  private async postState(): Promise<void> {
+    if (!this.panel || !this.shownNote) {
+      return;
+    }
+
+    const {lessonTitle, budgetMinutes, notes, index} = this.shownNote;
+    const note = notes[index];
+    const nextNote = notes[index + 1];
+    const state: PresenterState = {
+      lessonTitle,
+      noteNumber: index + 1,
+      noteCount: notes.length,
+      current: {
+        title: getNoteTitle(note),
+        description: getNoteDescription(note),
+        html: await renderMarkdown(note.markdown),
+      },
+      speakerNotesHtml: note.speakerNotes ? await renderMarkdown(note.speakerNotes) : undefined,
+      next: nextNote
+        ? {
+            title: getNoteTitle(nextNote),
+            description: getNoteDescription(nextNote),
+            html: await renderMarkdown(nextNote.markdown),
+          }
+        : undefined,
+      timer: {...this.timer, budgetMinutes},
+    };
+
+    this.panel.title = `Presenter: ${lessonTitle}`;
+    await this.panel.webview.postMessage({command: 'state', state});
+  }
+}
+
+/**
+ * Build the HTML of the presenter webview. It is loaded once; its content is rendered from the state
+ * posted by the extension.
+ */
+function getWebviewContent(): string {
+  const nonce = getNonce();
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src https: data:; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <title>Presenter View</title>
+  <style>
+    body {
+      font-family: var(--vscode-font-family);
+      color: var(--vscode-editor-foreground);
+      background-color: var(--vscode-editor-background);
+      margin: 0;
+      padding: 12px 16px;
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+    }
+
+    .top-bar {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+    }
+
+    .lesson-title {
+      flex: 1;
+      font-size: 13px;
+      font-weight: 600;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .progress {
+      font-size: 12px;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .progress-bar {
+      height: 4px;
+      background-color: var(--vscode-editorWidget-border, rgba(128, 128, 128, 0.3));
+      border-radius: 2px;
+      overflow: hidden;
+    }
+
+    .progress-bar-fill {
+      height: 100%;
+      background-color: var(--vscode-progressBar-background);
+    }
+
+    .timer {
+      display: flex;
+      align-items: baseline;
+      gap: 16px;
+      font-variant-numeric: tabular-nums;
+    }
+
+    .timer-value {
+      font-size: 28px;
+      font-weight: 600;
+    }
+
+    .timer-label {
+      font-size: 11px;
+      text-transform: uppercase;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .timer.overtime .remaining,
+    .timer.overtime .remaining .timer-label {
+      color: var(--vscode-errorForeground);
+    }
+
+    .timer.paused .timer-value {
+      opacity: 0.5;
+    }
+
+    .section {
+      border: 1px solid var(--vscode-panel-border);
+      border-radius: 4px;
+      padding: 8px 12px;
+    }
+
+    .section-title {
+      font-size: 11px;
+      text-transform: uppercase;
+      color: var(--vscode-descriptionForeground);
+      margin-bottom: 6px;
+    }
+
+    .note-title {
+      font-weight: 600;
+    }
+
+    .note-description {
+      font-size: 12px;
+      color: var(--vscode-descriptionForeground);
+      margin-bottom: 6px;
+    }
+
+    .speaker-notes {
+      font-size: 16px;
+      line-height: 1.5;
+      border-color: var(--vscode-focusBorder);
+    }
+
+    .empty {
+      font-style: italic;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .next {
+      opacity: 0.8;
+    }
+
+    .next .markdown-body {
+      max-height: 160px;
+      overflow: hidden;
+    }
+
+    .buttons {
+      display: flex;
+      gap: 8px;
+    }
+
+    button {
+      padding: 4px 12px;
+      border: none;
+      border-radius: 2px;
+      cursor: pointer;
+      background-color: var(--vscode-button-secondaryBackground);
+      color: var(--vscode-button-secondaryForeground);
+    }
+
+    button.primary {
+      background-color: var(--vscode-button-background);
+      color: var(--vscode-button-foreground);
+    }
+
+    .hint {
+      font-size: 11px;
+      color: var(--vscode-descriptionForeground);
+    }
+  </style>
+</head>
+<body>
+  <div class="top-bar">
+    <div class="lesson-title" id="lesson-title"></div>
+    <div class="progress" id="progress"></div>
+  </div>
+  <div class="progress-bar"><div class="progress-bar-fill" id="progress-fill"></div></div>
+
+  <div class="timer" id="timer">
+    <div><div class="timer-label">Elapsed</div><div class="timer-value" id="elapsed">0:00</div></div>
+    <div class="remaining" id="remaining-block">
+      <div class="timer-label" id="remaining-label">Remaining</div><div class="timer-value" id="remaining"></div>
+    </div>
+    <div class="buttons">
+      <button id="toggle-timer-button"></button>
+      <button id="reset-timer-button">Reset</button>
+    </div>
+  </div>
+
+  <div class="section speaker-notes">
+    <div class="section-title">Speaker notes</div>
+    <div class="markdown-body" id="speaker-notes"></div>
+  </div>
+
+  <div class="section">
+    <div class="section-title">On screen</div>
+    <div class="note-title" id="current-title"></div>
+    <div class="note-description" id="current-description"></div>
+    <div class="markdown-body" id="current-markdown"></div>
+  </div>
+
+  <div class="section next">
+    <div class="section-title">Up next</div>
+    <div id="next"></div>
+  </div>
+
+  <div class="buttons">
+    <button id="prev-button">← Previous</button>
+    <button class="primary" id="next-button">Next →</button>
+    <button id="exit-button">Exit Review</button>
+  </div>
+  <div class="hint">Only you see this view. Drag it to another window to keep it off the shared screen.</div>
+
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    let state = undefined;
+
+    function formatTime(ms) {
+      const totalSeconds = Math.floor(Math.abs(ms) / 1000);
+      const hours = Math.floor(totalSeconds / 3600);
+      const minutes = Math.floor((totalSeconds % 3600) / 60);
+      const seconds = String(totalSeconds % 60).padStart(2, '0');
+      return hours > 0 ? hours + ':' + String(minutes).padStart(2, '0') + ':' + seconds : minutes + ':' + seconds;
+    }
+
+    function renderTimer() {
+      if (!state) {
+        return;
+      }
+      const timer = state.timer;
+      const running = timer.runningSince !== null && timer.runningSince !== undefined;
+      const elapsed = timer.elapsedMs + (running ? Date.now() - timer.runningSince : 0);
+      document.getElementById('elapsed').textContent = formatTime(elapsed);
+      document.getElementById('toggle-timer-button').textContent = running ? 'Pause' : 'Start';
+
+      const timerElement = document.getElementById('timer');
+      timerElement.classList.toggle('paused', !running);
+      const remainingBlock = document.getElementById('remaining-block');
+      if (!timer.budgetMinutes) {
+        remainingBlock.style.display = 'none';
+        timerElement.classList.remove('overtime');
+        return;
+      }
+      remainingBlock.style.display = '';
+      const remaining = timer.budgetMinutes * 60000 - elapsed;
+      timerElement.classList.toggle('overtime', remaining < 0);
+      document.getElementById('remaining-label').textContent =
+        remaining < 0 ? 'Over time' : 'Remaining of ' + timer.budgetMinutes + ' min';
+      document.getElementById('remaining').textContent = (remaining < 0 ? '+' : '') + formatTime(remaining);
+    }
+
+    function renderState(newState) {
+      state = newState;
+      document.getElementById('lesson-title').textContent = state.lessonTitle;
+      document.getElementById('progress').textContent = 'Note ' + state.noteNumber + ' of ' + state.noteCount;
+      document.getElementById('progress-fill').style.width = (state.noteNumber / state.noteCount) * 100 + '%';
+
+      const speakerNotes = document.getElementById('speaker-notes');
+      if (state.speakerNotesHtml) {
+        speakerNotes.innerHTML = state.speakerNotesHtml;
+        speakerNotes.classList.remove('empty');
+      } else {
+        speakerNotes.textContent = 'No speaker notes for this note.';
+        speakerNotes.classList.add('empty');
+      }
+
+      document.getElementById('current-title').textContent = state.current.title;
+      document.getElementById('current-description').textContent = state.current.description;
+      document.getElementById('current-markdown').innerHTML = state.current.html;
+
+      const next = document.getElementById('next');
+      if (state.next) {
+        next.innerHTML =
+          '<div class="note-title"></div><div class="note-description"></div><div class="markdown-body"></div>';
+        next.querySelector('.note-title').textContent = state.next.title;
+        next.querySelector('.note-description').textContent = state.next.description;
+        next.querySelector('.markdown-body').innerHTML = state.next.html;
+      } else {
+        next.innerHTML = '<div class="empty">This is the last note.</div>';
+      }
+
+      document.getElementById('prev-button').disabled = state.noteNumber <= 1;
+      document.getElementById('next-button').disabled = state.noteNumber >= state.noteCount;
+      renderTimer();
+    }
+
+    document.getElementById('prev-button').addEventListener('click', () => vscode.postMessage({command: 'prev'}));
+    document.getElementById('next-button').addEventListener('click', () => vscode.postMessage({command: 'next'}));
+    document.getElementById('exit-button').addEventListener('click', () => vscode.postMessage({command: 'exit'}));
+    document.getElementById('toggle-timer-button').addEventListener('click', () => {
+      vscode.postMessage({command: 'toggleTimer'});
+    });
+    document.getElementById('reset-timer-button').addEventListener('click', () => {
+      vscode.postMessage({command: 'resetTimer'});
+    });
+
+    window.addEventListener('message', event => {
+      if (event.data.command === 'state') {
+        renderState(event.data.state);
+      }
+    });
+
+    setInterval(renderTimer, 1000);
+    vscode.postMessage({command: 'ready'});
+  </script>
+</body>
+</html>`;
+}
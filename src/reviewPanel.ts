@@ -0,0 +1,258 @@
+import * as vscode from 'vscode';
+import {getNonce, renderMarkdown} from './htmlUtils';
+
+// View type of the review webview, also used in the "when" clauses of the review keybindings
+export const REVIEW_VIEW_TYPE = 'codeHighlight.review';
+
+/**
+ * The note under review, as shown on the shared screen
+ */
+export interface ReviewNote {
+  lessonTitle: string;
+  markdown: string;
+  noteNumber: number;
+  noteCount: number;
+  rangeStep?: {revealed: number; count: number}; // Progress through the ranges of a step-through note
+}
+
+/**
+ * Audience-facing view of a review: the public markdown of the current note and the review controls.
+ * The review keybindings are enabled while it is focused, and closing it ends the review.
+ */
+export class ReviewPanel implements vscode.Disposable {
+  private readonly _onDidClose = new vscode.EventEmitter<void>();
+  // Fired when the user closes the panel, not when it is closed with close()
+  readonly onDidClose = this._onDidClose.event;
+
+  private panel: vscode.WebviewPanel | undefined;
+  private shownNote: ReviewNote | undefined;
+
+  /**
+   * Show a note, opening the panel beside the editors and focusing it the first time
+   */
+  async show(note: ReviewNote): Promise<void> {
+    this.shownNote = note;
+    if (!this.panel) {
+      this.open();
+    }
+    await this.postState();
+  }
+
+  /**
+   * Focus the panel so the review keybindings apply again
+   */
+  reveal(): void {
+    this.panel?.reveal(undefined, false);
+  }
+
+  /**
+   * Close the panel without ending the review through onDidClose
+   */
+  close(): void {
+    this.shownNote = undefined;
+    const panel = this.panel;
+    this.panel = undefined;
+    panel?.dispose();
+  }
+
+  dispose(): void {
+    this.close();
+    this._onDidClose.dispose();
+  }
+
+  private open(): void {
+    const panel = vscode.window.createWebviewPanel(
+      REVIEW_VIEW_TYPE,
+      'Lecture Notes Review',
+      {viewColumn: vscode.ViewColumn.Beside, preserveFocus: false},
+      {enableScripts: true}
+    );
+    panel.webview.html = getWebviewContent();
+
+    panel.webview.onDidReceiveMessage(async message => {
+      switch (message.command) {
+        case 'ready':
+          await this.postState();
+          break;
+        case 'next':
+          await vscode.commands.executeCommand('code-highlight.reviewNextNote');
+          break;
+        case 'prev':
+          await vscode.commands.executeCommand('code-highlight.reviewPrevNote');
+          break;
+        case 'exit':
+          await vscode.commands.executeCommand('code-highlight.exitReviewNotes');
+          break;
+      }
+    });
+
+    panel.onDidDispose(() => {
+      // close() forgets the panel before disposing it, so only a panel closed by the user gets here
+      if (this.panel === panel) {
+        this.panel = undefined;
+        this.shownNote = undefined;
+        this._onDidClose.fire();
+      }
+    });
+
+    this.panel = panel;
+  }
+
+  private async postState(): Promise<void> {
+    if (!this.panel || !this.shownNote) {
+      return;
+    }
+
+    const {lessonTitle, markdown, noteNumber, noteCount, rangeStep} = this.shownNote;
+    this.panel.title = `Review: ${lessonTitle}`;
+    await this.panel.webview.postMessage({
+      command: 'state',
+      state: {noteNumber, noteCount, rangeStep, html: await renderMarkdown(markdown)},
+    });
+  }
+}
+
+/**
+ * Build the HTML of the review webview. It is loaded once; the note is rendered from the state posted by the
+ * extension.
+ */
+function getWebviewContent(): string {
+  const nonce = getNonce();
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src https: data:; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <title>Lecture Notes Review</title>
+  <style>
+    body {
+      font-family: var(--vscode-font-family);
+      color: var(--vscode-editor-foreground);
+      background-color: var(--vscode-editor-background);
+      margin: 0;
+      height: 100vh;
+      display: flex;
+      flex-direction: column;
+    }
+
+    .markdown-body {
+      flex: 1;
+      padding: 16px 24px;
+      overflow-y: auto;
+      font-size: 16px;
+      line-height: 1.6;
+    }
+
+    .markdown-body a {
+      color: var(--vscode-textLink-foreground);
+    }
+
+    .markdown-body code {
+      font-family: var(--vscode-editor-font-family);
+      color: var(--vscode-textPreformat-foreground);
+    }
+
+    .markdown-body pre {
+      padding: 8px 12px;
+      overflow-x: auto;
+      border-radius: 3px;
+      background-color: var(--vscode-textCodeBlock-background);
+    }
+
+    .markdown-body pre code {
+      color: var(--vscode-editor-foreground);
+    }
+
+    .markdown-body table {
+      border-collapse: collapse;
+    }
+
+    .markdown-body th, .markdown-body td {
+      padding: 4px 8px;
+      border: 1px solid var(--vscode-panel-border);
+    }
+
+    .markdown-body blockquote {
+      margin: 0 0 0.8em;
+      padding: 0 12px;
+      border-left: 4px solid var(--vscode-textBlockQuote-border);
+      background-color: var(--vscode-textBlockQuote-background);
+    }
+
+    .controls {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 8px 24px;
+      border-top: 1px solid var(--vscode-panel-border);
+    }
+
+    .progress {
+      flex: 1;
+      font-size: 12px;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    button {
+      padding: 4px 12px;
+      border: none;
+      border-radius: 2px;
+      cursor: pointer;
+      background-color: var(--vscode-button-secondaryBackground);
+      color: var(--vscode-button-secondaryForeground);
+    }
+
+    button.primary {
+      background-color: var(--vscode-button-background);
+      color: var(--vscode-button-foreground);
+    }
+  </style>
+</head>
+<body>
+  <div class="markdown-body" id="markdown"></div>
+  <div class="controls">
+    <div class="progress" id="progress"></div>
+    <button id="prev-button" title="Previous note or range (←)">← Previous</button>
+    <button class="primary" id="next-button" title="Next note or range (→)">Next →</button>
+    <button id="exit-button" title="Exit review (Escape)">Exit Review</button>
+  </div>
+
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    let shownNoteNumber = undefined;
+
+    function renderState(state) {
+      const markdown = document.getElementById('markdown');
+      markdown.innerHTML = state.html;
+      if (state.noteNumber !== shownNoteNumber) {
+        // Keep the scroll position while stepping through the ranges of the same note
+        markdown.scrollTop = 0;
+        shownNoteNumber = state.noteNumber;
+      }
+
+      const step = state.rangeStep;
+      document.getElementById('progress').textContent =
+        'Note ' + state.noteNumber + ' of ' + state.noteCount +
+        (step ? ' · range ' + step.revealed + ' of ' + step.count : '');
+      document.getElementById('prev-button').disabled = state.noteNumber <= 1 && (!step || step.revealed <= 1);
+      document.getElementById('next-button').disabled =
+        state.noteNumber >= state.noteCount && (!step || step.revealed >= step.count);
+    }
+
+    document.getElementById('prev-button').addEventListener('click', () => vscode.postMessage({command: 'prev'}));
+    document.getElementById('next-button').addEventListener('click', () => vscode.postMessage({command: 'next'}));
+    document.getElementById('exit-button').addEventListener('click', () => vscode.postMessage({command: 'exit'}));
+
+    window.addEventListener('message', event => {
+      if (event.data.command === 'state') {
+        renderState(event.data.state);
+      }
+    });
+
+    vscode.postMessage({command: 'ready'});
+  </script>
+</body>
+</html>`;
+}
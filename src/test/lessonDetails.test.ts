@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import {formatDuration, formatLessonDetails, normalizeLessonDetails} from '../lessonDetails';
+
+suite('Lesson details', () => {
+  test('Trims the details and drops the empty ones', () => {
+    assert.deepStrictEqual(normalizeLessonDetails({description: '  ', tags: [' ', ''], estimatedMinutes: 0}), {});
+
+    const details = {description: ' Closures in depth ', tags: [' js', 'scope ', 'js'], estimatedMinutes: 44.6};
+    assert.deepStrictEqual(normalizeLessonDetails(details), {
+      description: 'Closures in depth',
+      tags: ['js', 'scope'],
+      estimatedMinutes: 45,
+    });
+  });
+
+  test('Rejects a negative or non-numeric duration', () => {
+    for (const estimatedMinutes of [-1, NaN, Infinity]) {
+      assert.throws(
+        () => normalizeLessonDetails({estimatedMinutes}),
+        /Estimated duration must be a positive number of minutes/,
+        String(estimatedMinutes)
+      );
+    }
+  });
+
+  test('Formats durations in hours and minutes', () => {
+    assert.strictEqual(formatDuration(45), '45 min');
+    assert.strictEqual(formatDuration(60), '1 h');
+    assert.strictEqual(formatDuration(90), '1 h 30 min');
+  });
+
+  test('Summarizes the duration and tags of a lesson', () => {
+    assert.strictEqual(formatLessonDetails({estimatedMinutes: 30, tags: ['js', 'scope']}), '30 min · #js #scope');
+    assert.strictEqual(formatLessonDetails({description: 'Not part of the summary'}), '');
+  });
+});
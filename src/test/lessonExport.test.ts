@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import {getFence, getFenceLanguage, mergeRanges} from '../lessonExport';
+import {LineRange} from '../types';
+
+suite('Markdown export', () => {
+  test('Sorts ranges and merges the ones that overlap or touch', () => {
+    assert.deepStrictEqual(
+      mergeRanges([
+        [10, 12],
+        [0, 2],
+        [3, 4],
+        [11, 15],
+        [20, 20],
+      ]),
+      [
+        [0, 4],
+        [10, 15],
+        [20, 20],
+      ]
+    );
+  });
+
+  test('Keeps ranges separated by a line apart and leaves its input unchanged', () => {
+    const ranges: LineRange[] = [
+      [4, 6],
+      [0, 2],
+    ];
+
+    assert.deepStrictEqual(mergeRanges(ranges), [
+      [0, 2],
+      [4, 6],
+    ]);
+    assert.deepStrictEqual(ranges, [
+      [4, 6],
+      [0, 2],
+    ]);
+  });
+
+  test('Uses a fence longer than any backtick run in the code', () => {
+    assert.strictEqual(getFence(['const a = 1;']), '```');
+    assert.strictEqual(getFence(['const s = `${a}`;']), '```');
+    assert.strictEqual(getFence(['// ```ts', 'const a = 1;']), '````');
+    assert.strictEqual(getFence(['`````']), '``````');
+  });
+
+  test('Maps VS Code language IDs to fence languages', () => {
+    assert.strictEqual(getFenceLanguage('typescriptreact'), 'tsx');
+    assert.strictEqual(getFenceLanguage('shellscript'), 'bash');
+    assert.strictEqual(getFenceLanguage('plaintext'), '');
+    assert.strictEqual(getFenceLanguage('python'), 'python');
+  });
+});
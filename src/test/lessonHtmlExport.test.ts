@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import {splitHighlightedLines} from '../lessonHtmlExport';
+
+suite('HTML export', () => {
+  test('Splits highlighted code into lines', () => {
+    const html = '<span class="hljs-keyword">const</span> a = 1;\n<span class="hljs-keyword">let</span> b;\n';
+
+    assert.deepStrictEqual(splitHighlightedLines(html), [
+      '<span class="hljs-keyword">const</span> a = 1;',
+      '<span class="hljs-keyword">let</span> b;',
+    ]);
+  });
+
+  test('Closes and re-opens spans that cross line breaks', () => {
+    assert.deepStrictEqual(
+      splitHighlightedLines('<span class="hljs-comment">/* one\n<span class="hljs-doctag">two</span>\nthree */</span>'),
+      [
+        '<span class="hljs-comment">/* one</span>',
+        '<span class="hljs-comment"><span class="hljs-doctag">two</span></span>',
+        '<span class="hljs-comment">three */</span>',
+      ]
+    );
+  });
+
+  test('Keeps empty lines', () => {
+    assert.deepStrictEqual(splitHighlightedLines('a\n\nb'), ['a', '', 'b']);
+  });
+});
@@ -0,0 +1,224 @@
+import * as assert from 'assert';
+import {LESSONS_FORMAT_VERSION, LessonFileError, parseLesson, parseMasterState, parseTrashEntry} from '../lessonSchema';
+
+const LESSON_FILE = '/workspace/.vscode/lessons/lesson-1.json';
+const MASTER_STATE_FILE = '/workspace/.vscode/lessons.json';
+const TRASH_FILE = '/workspace/.vscode/lessons/.trash/1700000000000-note-1.json';
+
+function lessonContent(lesson: Record<string, unknown>): string {
+  return JSON.stringify({version: LESSONS_FORMAT_VERSION, id: 1, title: 'Closures', notes: [], ...lesson});
+}
+
+/**
+ * Get the issues of a file that fails to parse, as "path: message" strings
+ */
+function getIssues(parse: () => unknown): string[] {
+  try {
+    parse();
+  } catch (error) {
+    assert.ok(error instanceof LessonFileError, `Expected a LessonFileError, got ${error}`);
+    return error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+  }
+  assert.fail('Expected the file to be invalid');
+}
+
+suite('Lesson file validation', () => {
+  test('Accepts a lesson with general and code notes', () => {
+    const lesson = parseLesson(
+      LESSON_FILE,
+      lessonContent({
+        notes: [
+          {type: 'general', markdown: 'Intro', durationSeconds: 30},
+          {
+            type: 'code',
+            markdown: 'The counter',
+            file: 'src/counter.ts',
+            ranges: [
+              [2, 4],
+              [8, 8],
+            ],
+            rangeStyles: [{emphasis: 'primary'}, {emphasis: 'secondary', label: 'usage'}],
+            characters: [null, [4, 12]],
+            stepThrough: true,
+          },
+        ],
+      }),
+      1
+    );
+
+    assert.strictEqual(lesson.title, 'Closures');
+    assert.strictEqual(lesson.notes.length, 2);
+  });
+
+  test('Reports every invalid note field with its path', () => {
+    const issues = getIssues(() =>
+      parseLesson(
+        LESSON_FILE,
+        lessonContent({
+          notes: [
+            {type: 'general'},
+            {type: 'code', markdown: 'Broken', file: '', ranges: [[5, 2]], rangeStyles: [], durationSeconds: 0},
+            {type: 'slide', markdown: 'Unknown'},
+          ],
+        }),
+        1
+      )
+    );
+
+    assert.deepStrictEqual(issues, [
+      'notes.0.markdown: Expected a string',
+      'notes.1.durationSeconds: Expected a positive number of seconds',
+      'notes.1.file: Expected a file path relative to the workspace',
+      'notes.1.ranges.0: Expected [startLine, endLine] with startLine <= endLine',
+      'notes.1.rangeStyles: Expected one entry per range (1)',
+      'notes.2.type: Expected "code" or "general"',
+    ]);
+  });
+
+  test('Rejects a lesson whose ID does not match its file name', () => {
+    assert.deepStrictEqual(
+      getIssues(() => parseLesson(LESSON_FILE, lessonContent({id: 2}), 1)),
+      ['id: Expected 1 (the number in the file name)']
+    );
+  });
+
+  test('Reports JSON syntax errors with their offset', () => {
+    try {
+      parseLesson(LESSON_FILE, '{"id": 1,,}', 1);
+      assert.fail('Expected the file to be invalid');
+    } catch (error) {
+      assert.ok(error instanceof LessonFileError);
+      assert.strictEqual(error.issues.length, 1);
+      assert.strictEqual(typeof error.issues[0].offset, 'number');
+    }
+  });
+
+  test('Accepts an active lesson that is not in the list of lessons, the consistency check repairs it', () => {
+    const content = JSON.stringify({
+      version: LESSONS_FORMAT_VERSION,
+      lessons: [{id: 1, title: 'Closures'}],
+      activeLessonId: 3,
+    });
+
+    assert.strictEqual(parseMasterState(MASTER_STATE_FILE, content).activeLessonId, 3);
+  });
+
+  test('Rejects duplicate lesson IDs in lessons.json', () => {
+    const content = JSON.stringify({
+      version: LESSONS_FORMAT_VERSION,
+      lessons: [
+        {id: 1, title: 'Closures'},
+        {id: 1, title: 'Promises'},
+      ],
+      activeLessonId: null,
+    });
+
+    assert.deepStrictEqual(getIssues(() => parseMasterState(MASTER_STATE_FILE, content)), [
+      'lessons.1.id: Lesson ID 1 is used more than once',
+    ]);
+  });
+});
+
+suite('Lesson file migrations', () => {
+  test('Migrates files written before the format was versioned', () => {
+    const unversioned = JSON.parse(lessonContent({}));
+    delete unversioned.version;
+    const lesson = parseLesson(LESSON_FILE, JSON.stringify(unversioned), 1);
+
+    assert.strictEqual(lesson.version, LESSONS_FORMAT_VERSION);
+    assert.strictEqual(Object.keys(lesson)[0], 'version');
+  });
+
+  test('Accepts files of the current format version', () => {
+    const state = parseMasterState(
+      MASTER_STATE_FILE,
+      JSON.stringify({version: LESSONS_FORMAT_VERSION, lessons: [], activeLessonId: null})
+    );
+
+    assert.strictEqual(state.version, LESSONS_FORMAT_VERSION);
+  });
+
+  test('Rejects files written by a newer version of the extension', () => {
+    const [issue] = getIssues(() => parseLesson(LESSON_FILE, lessonContent({version: LESSONS_FORMAT_VERSION + 1}), 1));
+
+    assert.ok(issue.startsWith('version: Format version'), issue);
+    assert.ok(issue.includes('newer version of the extension'), issue);
+  });
+
+  test('Rejects versions that are not non-negative integers', () => {
+    for (const version of [-1, 1.5, '1']) {
+      assert.deepStrictEqual(
+        getIssues(() => parseLesson(LESSON_FILE, lessonContent({version}), 1)),
+        ['version: Expected a non-negative integer'],
+        `version ${JSON.stringify(version)}`
+      );
+    }
+  });
+});
+
+suite('Trash entry validation', () => {
+  const deletedAt = '2024-05-01T10:00:00.000Z';
+
+  test('Accepts a deleted note', () => {
+    const entry = parseTrashEntry(
+      TRASH_FILE,
+      JSON.stringify({
+        kind: 'note',
+        deletedAt,
+        lessonId: 1,
+        lessonTitle: 'Closures',
+        noteIndex: 0,
+        note: {type: 'general', markdown: 'Intro'},
+      })
+    );
+
+    assert.strictEqual(entry.kind, 'note');
+  });
+
+  test('Migrates the lesson of a deleted lesson', () => {
+    const entry = parseTrashEntry(
+      TRASH_FILE,
+      JSON.stringify({
+        kind: 'lesson',
+        deletedAt,
+        position: 0,
+        wasActive: false,
+        lesson: {id: 1, title: 'Closures', notes: []},
+      })
+    );
+
+    assert.strictEqual(entry.kind === 'lesson' && entry.lesson.version, LESSONS_FORMAT_VERSION);
+  });
+
+  test('Rejects a merged lesson without a valid target lesson ID', () => {
+    const content = JSON.stringify({
+      kind: 'lesson',
+      deletedAt,
+      position: 0,
+      wasActive: false,
+      mergedInto: 'Closures',
+      lesson: {version: LESSONS_FORMAT_VERSION, id: 2, title: 'Scope', notes: []},
+    });
+
+    assert.deepStrictEqual(getIssues(() => parseTrashEntry(TRASH_FILE, content)), [
+      'mergedInto: Expected a positive integer lesson ID',
+    ]);
+  });
+
+  test('Rejects a deleted note that cannot be restored', () => {
+    const content = JSON.stringify({
+      kind: 'note',
+      deletedAt,
+      lessonId: 0,
+      lessonTitle: 'Closures',
+      noteIndex: -1,
+      note: {type: 'code', markdown: 'Counter', file: 'src/counter.ts'},
+    });
+
+    assert.deepStrictEqual(getIssues(() => parseTrashEntry(TRASH_FILE, content)), [
+      'lessonId: Expected a positive integer lesson ID',
+      'noteIndex: Expected a non-negative integer',
+      'note.ranges: Expected an array',
+    ]);
+  });
+});
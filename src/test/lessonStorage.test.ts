@@ -0,0 +1,134 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {FileLock, removeLeftoverTempFiles, writeFilesAtomically} from '../lessonStorage';
+
+let dir: string;
+
+function readFile(name: string): string {
+  return fs.readFileSync(path.join(dir, name), 'utf-8');
+}
+
+function writeFile(name: string, content: string): void {
+  fs.writeFileSync(path.join(dir, name), content, 'utf-8');
+}
+
+/**
+ * Give every test of a suite its own empty directory
+ */
+function useTempDir(): void {
+  setup(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lesson-storage-'));
+  });
+
+  teardown(() => {
+    fs.rmSync(dir, {recursive: true, force: true});
+  });
+}
+
+suite('Atomic writes', () => {
+  useTempDir();
+
+  test('Writes every file and leaves no temporary file', () => {
+    writeFile('lessons.json', 'old');
+
+    writeFilesAtomically([
+      {filePath: path.join(dir, 'lesson-1.json'), content: 'lesson'},
+      {filePath: path.join(dir, 'lessons.json'), content: 'state'},
+    ]);
+
+    assert.strictEqual(readFile('lesson-1.json'), 'lesson');
+    assert.strictEqual(readFile('lessons.json'), 'state');
+    assert.deepStrictEqual(fs.readdirSync(dir).sort(), ['lesson-1.json', 'lessons.json']);
+  });
+
+  test('Restores the files already replaced when replacing a later one fails', () => {
+    writeFile('lesson-1.json', 'old lesson');
+    // A non-empty directory cannot be replaced by a file
+    fs.mkdirSync(path.join(dir, 'lessons.json'));
+    writeFile(path.join('lessons.json', 'keep'), '');
+
+    assert.throws(() =>
+      writeFilesAtomically([
+        {filePath: path.join(dir, 'lesson-1.json'), content: 'new lesson'},
+        {filePath: path.join(dir, 'lesson-2.json'), content: 'created'},
+        {filePath: path.join(dir, 'lessons.json'), content: 'state'},
+      ])
+    );
+
+    assert.strictEqual(readFile('lesson-1.json'), 'old lesson');
+    assert.deepStrictEqual(fs.readdirSync(dir).sort(), ['lesson-1.json', 'lessons.json']);
+  });
+
+  test('Removes only the temporary files of interrupted writes', () => {
+    writeFile('.lesson-write-0b7e.tmp', '');
+    writeFile('.lesson-write-0b7e.json', '');
+    writeFile('lesson-1.json.tmp', '');
+    writeFile('lesson-1.json', '');
+
+    assert.deepStrictEqual(removeLeftoverTempFiles(dir), ['.lesson-write-0b7e.tmp']);
+    assert.deepStrictEqual(fs.readdirSync(dir).sort(), [
+      '.lesson-write-0b7e.json',
+      'lesson-1.json',
+      'lesson-1.json.tmp',
+    ]);
+  });
+});
+
+suite('File lock', () => {
+  useTempDir();
+
+  const lockName = 'lessons.lock';
+  const holdLock = () => writeFile(lockName, JSON.stringify({pid: 1, token: 'other window'}));
+
+  test('Runs changes one at a time and releases the lock', async () => {
+    const lock = new FileLock(path.join(dir, lockName));
+    const order: string[] = [];
+
+    await Promise.all([
+      lock.run(() => order.push('first')),
+      lock.run(() => {
+        assert.ok(fs.existsSync(path.join(dir, lockName)));
+        order.push('second');
+      }),
+    ]);
+
+    assert.deepStrictEqual(order, ['first', 'second']);
+    assert.ok(!fs.existsSync(path.join(dir, lockName)));
+  });
+
+  test('Waits for another window to release the lock', async () => {
+    holdLock();
+    setTimeout(() => fs.rmSync(path.join(dir, lockName)), 100);
+
+    const result = await new FileLock(path.join(dir, lockName)).run(() => 'changed');
+
+    assert.strictEqual(result, 'changed');
+  });
+
+  test('Gives up when another window keeps the lock', async function () {
+    this.timeout(5000);
+    holdLock();
+    let ran = false;
+
+    await assert.rejects(
+      new FileLock(path.join(dir, lockName)).run(() => (ran = true)),
+      /being changed by another VS Code window/
+    );
+
+    assert.strictEqual(ran, false);
+    assert.ok(fs.existsSync(path.join(dir, lockName)), 'The lock of the other window is kept');
+  });
+
+  test('Takes over a stale lock left by a crashed window', async () => {
+    holdLock();
+    const crashTime = new Date(Date.now() - 60000);
+    fs.utimesSync(path.join(dir, lockName), crashTime, crashTime);
+
+    const result = await new FileLock(path.join(dir, lockName)).run(() => 'changed');
+
+    assert.strictEqual(result, 'changed');
+    assert.ok(!fs.existsSync(path.join(dir, lockName)));
+  });
+});
@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import {createRangeAnchor, relocateNoteRanges, relocateRange} from '../noteAnchors';
+import {RangeAnchor} from '../types';
+
+async function openDocument(lines: string[]): Promise<vscode.TextDocument> {
+  return vscode.workspace.openTextDocument({content: lines.join('\n'), language: 'typescript'});
+}
+
+/**
+ * Anchor of a single line without context, so that its similarity alone decides whether it is found
+ */
+function lineAnchor(text: string): RangeAnchor {
+  return {text, before: '', after: ''};
+}
+
+suite('Range anchors', () => {
+  const code = [
+    'import {counter} from "./counter";',
+    '',
+    'function increment(value: number): number {',
+    '  return value + 1;',
+    '}',
+    '',
+    'console.log(increment(counter));',
+  ];
+
+  test('Keeps a range whose code did not move', async () => {
+    const document = await openDocument(code);
+    const anchor = createRangeAnchor(document, [2, 4]);
+
+    assert.deepStrictEqual(relocateRange(document, [2, 4], anchor), [2, 4]);
+  });
+
+  test('Follows code that moved down', async () => {
+    const anchor = createRangeAnchor(await openDocument(code), [2, 4]);
+    const document = await openDocument(['// Helpers', '// for the counter', ...code]);
+
+    assert.deepStrictEqual(relocateRange(document, [2, 4], anchor), [4, 6]);
+  });
+
+  test('Follows code that was slightly edited', async () => {
+    const anchor = createRangeAnchor(await openDocument(code), [2, 4]);
+    const edited = [...code];
+    edited[3] = '  return value + 2;';
+    const document = await openDocument(['', ...edited]);
+
+    assert.deepStrictEqual(relocateRange(document, [2, 4], anchor), [3, 5]);
+  });
+
+  // Similarity is the Dice coefficient of the character bigrams of the lines, and ranges are only found when it
+  // reaches MIN_SIMILARITY (0.6)
+  test('Finds a line exactly at the minimum similarity', async () => {
+    // "abcdef" and "abcdxy" share 3 of their 5 + 5 bigrams: 2 * 3 / 10 = 0.6
+    const document = await openDocument(['abcdxy']);
+
+    assert.deepStrictEqual(relocateRange(document, [0, 0], lineAnchor('abcdef')), [0, 0]);
+  });
+
+  test('Loses a line just below the minimum similarity', async () => {
+    // "abcdef" and "abcdxyz" share 3 of their 5 + 6 bigrams: 2 * 3 / 11 = 0.55
+    const document = await openDocument(['abcdxyz']);
+
+    assert.strictEqual(relocateRange(document, [0, 0], lineAnchor('abcdef')), undefined);
+  });
+
+  test('Reports lost ranges and keeps the others', async () => {
+    const original = await openDocument(code);
+    const note = {
+      file: 'src/increment.ts',
+      ranges: [
+        [2, 4],
+        [6, 6],
+      ] as [number, number][],
+      anchors: [createRangeAnchor(original, [2, 4]), createRangeAnchor(original, [6, 6])],
+    };
+    const document = await openDocument(code.slice(0, 6));
+
+    const result = relocateNoteRanges(document, note);
+
+    assert.deepStrictEqual(result.ranges, [[2, 4]]);
+    assert.deepStrictEqual(result.lostRanges, [[6, 6]]);
+    assert.strictEqual(result.changed, true);
+  });
+
+  test('Clamps ranges saved without anchors and anchors them', async () => {
+    const document = await openDocument(code);
+
+    const result = relocateNoteRanges(document, {file: 'src/increment.ts', ranges: [[5, 20]]});
+
+    assert.deepStrictEqual(result.ranges, [[5, 6]]);
+    assert.strictEqual(result.anchors.length, 1);
+    assert.strictEqual(result.changed, true);
+  });
+});
@@ -8,22 +8,71 @@
  */
 export type LineRange = [number, number];
 
+/**
+ * Represents the character columns of a range as a tuple [startCharacter, endCharacter]
+ * startCharacter is on the range's start line, endCharacter (exclusive) on its end line.
+ * Together with a LineRange it forms a precise range (start/end line + character).
+ */
+export type CharacterRange = [number, number];
+
+/**
+ * Content fingerprint of a line range, used to re-locate the range after the code was edited
+ */
+export interface RangeAnchor {
+  text: string; // Text of the highlighted lines
+  before: string; // Context lines above the range
+  after: string; // Context lines below the range
+}
+
+/**
+ * Emphasis level of a highlighted range
+ * - primary: the main highlight (uses the configured highlight style)
+ * - secondary: a fainter highlight for supporting code
+ * - before / after: red and green highlights, e.g. to explain a refactor
+ */
+export type RangeEmphasis = 'primary' | 'secondary' | 'before' | 'after';
+
+/**
+ * Optional style of a single range of a code note
+ */
+export interface RangeStyle {
+  emphasis: RangeEmphasis;
+  label?: string; // Short text shown next to the range (e.g. "before")
+}
+
 /**
  * A general note that doesn't reference any code
  */
 export interface GeneralNote {
   type: 'general';
   markdown: string;
+  speakerNotes?: string; // Private markdown shown only in the presenter view
+  durationSeconds?: number; // How long auto-play shows the note, the default from the settings when missing
 }
 
 /**
- * A code note that references specific line ranges in a file
+ * Line ranges (and their per-range data) in one file of a code note
  */
-export interface CodeNote {
-  type: 'code';
-  file: string; // Relative path from workspace root
+export interface FileRanges {
+  file: string; // Relative path from the workspace folder of the file
+  folder?: string; // Name of the workspace folder of the file, when it is not the folder hosting the lessons
   ranges: LineRange[]; // Array of [start, end] tuples for non-adjacent ranges
+  anchors?: RangeAnchor[]; // Content fingerprints, one per range (same order as ranges)
+  rangeStyles?: RangeStyle[]; // Style per range (same order as ranges), primary when missing
+  characters?: (CharacterRange | null)[]; // Columns per range (same order as ranges), null for whole lines
+}
+
+/**
+ * A code note that references specific line ranges in a file, and optionally in further files
+ */
+export interface CodeNote extends FileRanges {
+  type: 'code';
+  extraFiles?: FileRanges[]; // Ranges in other files, shown side by side with the main file
+  stepThrough?: boolean; // Reveal the ranges one at a time while reviewing ("build" mode)
+  typewriterCode?: string; // Code typed live into the first range of the main file while reviewing
   markdown: string;
+  speakerNotes?: string; // Private markdown shown only in the presenter view
+  durationSeconds?: number; // How long auto-play shows the note, the default from the settings when missing
 }
 
 /**
@@ -34,16 +83,28 @@ export type LectureNote = GeneralNote | CodeNote;
 /**
  * Represents a complete lesson with all its notes
  */
-export interface Lesson {
+export interface Lesson extends LessonDetails {
+  version?: number; // Format version of the file, see lessonSchema.ts
   id: number; // Unique identifier, starting from 1
   title: string;
   notes: LectureNote[];
+  createdAt?: string; // ISO timestamp, missing for lessons created before it was recorded
+  updatedAt?: string; // ISO timestamp of the last save
+}
+
+/**
+ * Optional metadata of a lesson, edited from the lesson details form
+ */
+export interface LessonDetails {
+  description?: string;
+  tags?: string[];
+  estimatedMinutes?: number; // Estimated duration of the lesson
 }
 
 /**
  * Represents a lesson summary (used in the master index)
  */
-export interface LessonSummary {
+export interface LessonSummary extends LessonDetails {
   id: number;
   title: string;
 }
@@ -53,7 +114,37 @@ export interface LessonSummary {
  * Stored at: .vscode/lessons.json
  */
 export interface LessonsMasterState {
+  version?: number; // Format version of the file, see lessonSchema.ts
   activeLessonId: number | null; // null if no lesson is active
   lessons: LessonSummary[]; // List of all lessons with their metadata
 }
 
+
+/**
+ * A lesson moved to the trash, stored at: .vscode/lessons/.trash/<id>.json
+ */
+export interface DeletedLessonEntry {
+  kind: 'lesson';
+  id: string; // File name of the entry without extension
+  deletedAt: string; // ISO timestamp
+  position: number; // Index of the lesson in the list of lessons when it was deleted
+  wasActive: boolean;
+  mergedInto?: number; // ID of the lesson its notes were appended to, when the lesson was merged
+  lesson: Lesson;
+}
+
+/**
+ * A note moved to the trash, restored into its lesson at its former position
+ */
+export interface DeletedNoteEntry {
+  kind: 'note';
+  id: string; // File name of the entry without extension
+  deletedAt: string; // ISO timestamp
+  lessonId: number;
+  lessonTitle: string; // Title of the lesson when the note was deleted
+  lessonCreatedAt?: string; // Creation time of the lesson, to tell it from a later lesson given the same ID
+  noteIndex: number;
+  note: LectureNote;
+}
+
+export type TrashEntry = DeletedLessonEntry | DeletedNoteEntry;
@@ -0,0 +1,241 @@
+import * as vscode from 'vscode';
+import {CONFIG_SECTION} from './highlightStyle';
+import {logger} from './logger';
+import {LineRange} from './types';
+
+// Context key set to 'typing' or 'paused' while code is being typed, used in the "when" clauses of its commands
+const TYPEWRITER_CONTEXT_KEY = 'codeHighlight.typewriter';
+const DEFAULT_CHARACTERS_PER_SECOND = 25;
+const PAUSED_POLL_MS = 100;
+
+/**
+ * Code being typed into an editor
+ */
+interface TypingSession {
+  editor: vscode.TextEditor;
+  code: string;
+  startOffset: number; // Offset in the document where the code is typed
+  typed: number; // Characters of the code typed so far
+  paused: boolean;
+  skipped: boolean; // Type the rest of the code at once
+  done: Promise<void>;
+}
+
+/**
+ * Content of a document before code was typed into it, restored when the review ends
+ */
+interface OriginalContent {
+  uri: vscode.Uri;
+  text: string;
+  wasDirty: boolean;
+}
+
+/**
+ * Get the code of a range of a document, as stored in a typewriter note
+ */
+export function getRangeCode(document: vscode.TextDocument, [startLine, endLine]: LineRange): string {
+  return document.getText(getLinesRange(document, [startLine, endLine]));
+}
+
+/**
+ * Types the code of a typewriter note into its range during a review, as if it was written live, and restores
+ * the files when the review ends
+ */
+export class Typewriter implements vscode.Disposable {
+  private readonly _onDidFinish = new vscode.EventEmitter<void>();
+  // Fired when all the code was typed (also after a skip), not when typing is stopped
+  readonly onDidFinish = this._onDidFinish.event;
+
+  private session: TypingSession | undefined;
+  private readonly originals = new Map<string, OriginalContent>();
+
+  /**
+   * Erase the lines of a range and start typing the code into them. Resolves once typing has started.
+   */
+  async type(editor: vscode.TextEditor, range: LineRange, code: string): Promise<void> {
+    await this.finish();
+
+    const document = editor.document;
+    const key = document.uri.toString();
+    if (!this.originals.has(key)) {
+      this.originals.set(key, {uri: document.uri, text: document.getText(), wasDirty: document.isDirty});
+    }
+
+    const linesRange = getLinesRange(document, range);
+    const erased = await editor.edit(builder => builder.replace(linesRange, ''), {
+      undoStopBefore: true,
+      undoStopAfter: false,
+    });
+    if (!erased) {
+      throw new Error(`Could not type into ${document.uri.fsPath}`);
+    }
+
+    const session: TypingSession = {
+      editor,
+      code,
+      startOffset: document.offsetAt(linesRange.start),
+      typed: 0,
+      paused: false,
+      skipped: false,
+      done: Promise.resolve(),
+    };
+    this.session = session;
+    session.done = this.run(session);
+    await this.updateContext();
+  }
+
+  async pause(): Promise<void> {
+    if (this.session && !this.session.paused) {
+      this.session.paused = true;
+      await this.updateContext();
+    }
+  }
+
+  async resume(): Promise<void> {
+    if (this.session?.paused) {
+      this.session.paused = false;
+      await this.updateContext();
+    }
+  }
+
+  /**
+   * Type the rest of the code at once
+   */
+  async finish(): Promise<void> {
+    const session = this.session;
+    if (!session) {
+      return;
+    }
+    session.skipped = true;
+    await session.done;
+  }
+
+  /**
+   * Finish typing when the review ends, then restore the typed files if the settings ask for it
+   */
+  async end(): Promise<void> {
+    await this.finish();
+
+    const revert = vscode.workspace.getConfiguration(CONFIG_SECTION).get<boolean>('typewriter.revertOnExit', true);
+    if (revert) {
+      for (const original of this.originals.values()) {
+        await restoreContent(original);
+      }
+    }
+    this.originals.clear();
+  }
+
+  /**
+   * Whether code was typed into a document and the document was not restored yet
+   */
+  hasEdits(uri: vscode.Uri): boolean {
+    return this.originals.has(uri.toString());
+  }
+
+  dispose(): void {
+    // Stops the typing loop
+    this.session = undefined;
+    this._onDidFinish.dispose();
+  }
+
+  private async run(session: TypingSession): Promise<void> {
+    const characterDelayMs = 1000 / getCharactersPerSecond();
+    try {
+      while (session.typed < session.code.length) {
+        if (this.session !== session) {
+          return;
+        }
+        if (session.paused && !session.skipped) {
+          await sleep(PAUSED_POLL_MS);
+          continue;
+        }
+
+        const chunk = session.skipped ? session.code.slice(session.typed) : getNextChunk(session.code, session.typed);
+        const {editor} = session;
+        const position = editor.document.positionAt(session.startOffset + session.typed);
+        const inserted = await editor.edit(builder => builder.insert(position, chunk), {
+          undoStopBefore: false,
+          undoStopAfter: false,
+        });
+        if (!inserted) {
+          throw new Error(`Could not type into ${editor.document.uri.fsPath}`);
+        }
+        session.typed += chunk.length;
+
+        // Keep the caret after the typed code, like while typing by hand
+        const caret = editor.document.positionAt(session.startOffset + session.typed);
+        editor.selection = new vscode.Selection(caret, caret);
+        editor.revealRange(new vscode.Range(caret, caret));
+
+        if (!session.skipped) {
+          await sleep(characterDelayMs);
+        }
+      }
+
+      if (this.session === session) {
+        this._onDidFinish.fire();
+      }
+    } catch (error) {
+      logger.error('Typewriter replay stopped', error);
+    } finally {
+      if (this.session === session) {
+        this.session = undefined;
+        await this.updateContext();
+      }
+    }
+  }
+
+  private async updateContext(): Promise<void> {
+    const state = this.session ? (this.session.paused ? 'paused' : 'typing') : undefined;
+    await vscode.commands.executeCommand('setContext', TYPEWRITER_CONTEXT_KEY, state);
+  }
+}
+
+/**
+ * Get the next characters to type: one character, or the whole indentation at the start of a line
+ */
+function getNextChunk(code: string, offset: number): string {
+  if (offset === 0 || code[offset - 1] === '\n') {
+    const indentation = /^[ \t]+/.exec(code.slice(offset));
+    if (indentation) {
+      return indentation[0];
+    }
+  }
+  return code[offset];
+}
+
+/**
+ * Put back the content a document had before code was typed into it, saving it if it had no unsaved changes
+ */
+async function restoreContent({uri, text, wasDirty}: OriginalContent): Promise<void> {
+  try {
+    const document = await vscode.workspace.openTextDocument(uri);
+    if (document.getText() !== text) {
+      const edit = new vscode.WorkspaceEdit();
+      edit.replace(uri, new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length)), text);
+      await vscode.workspace.applyEdit(edit);
+    }
+    if (!wasDirty && document.isDirty) {
+      await document.save();
+    }
+  } catch (error) {
+    logger.error(`Failed to restore ${uri.fsPath} after typing into it`, error);
+  }
+}
+
+function getLinesRange(document: vscode.TextDocument, [startLine, endLine]: LineRange): vscode.Range {
+  // The file may have lost lines since the range was saved
+  const lastLine = Math.min(endLine, document.lineCount - 1);
+  return document.validateRange(new vscode.Range(startLine, 0, lastLine, document.lineAt(lastLine).text.length));
+}
+
+function getCharactersPerSecond(): number {
+  const configured = vscode.workspace
+    .getConfiguration(CONFIG_SECTION)
+    .get<number>('typewriter.charactersPerSecond', DEFAULT_CHARACTERS_PER_SECOND);
+  return configured > 0 ? configured : DEFAULT_CHARACTERS_PER_SECOND;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,89 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import {CONFIG_SECTION} from './highlightStyle';
+import {FileRanges} from './types';
+
+// Setting naming the workspace folder whose .vscode folder stores the lessons
+export const LESSONS_FOLDER_SETTING = 'lessonsFolder';
+
+/**
+ * Location of a note file: its path relative to its workspace folder, and the folder's name when it is not
+ * the folder hosting the lessons
+ */
+export type NoteFileLocation = Pick<FileRanges, 'file' | 'folder'>;
+
+/**
+ * Get the workspace folder hosting the lessons: the one chosen in the settings, or the first folder
+ */
+export function getLessonsFolder(): vscode.WorkspaceFolder {
+  const folders = vscode.workspace.workspaceFolders;
+  if (!folders || folders.length === 0) {
+    throw new Error('No workspace folder found');
+  }
+
+  const folderName = vscode.workspace.getConfiguration(CONFIG_SECTION).get<string>(LESSONS_FOLDER_SETTING, '');
+  return folders.find(folder => folder.name === folderName) ?? folders[0];
+}
+
+/**
+ * Get the location to store in a note for a file, relative to the workspace folder containing it
+ */
+export function getNoteFileLocation(uri: vscode.Uri): NoteFileLocation {
+  const folder = vscode.workspace.getWorkspaceFolder(uri);
+  const lessonsFolder = getLessonsFolder();
+  if (!folder) {
+    // A file outside the workspace is kept relative to the lessons folder
+    return {file: toPosixPath(path.relative(lessonsFolder.uri.fsPath, uri.fsPath))};
+  }
+
+  const file = toPosixPath(path.relative(folder.uri.fsPath, uri.fsPath));
+  return folder.name === lessonsFolder.name ? {file} : {file, folder: folder.name};
+}
+
+/**
+ * Resolve the file of a note against its workspace folder
+ */
+export function resolveNoteFile({file, folder}: NoteFileLocation): vscode.Uri {
+  if (path.isAbsolute(file)) {
+    return vscode.Uri.file(file);
+  }
+
+  if (folder !== undefined) {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.find(f => f.name === folder);
+    if (!workspaceFolder) {
+      throw new Error(`The workspace folder "${folder}" of ${file} is not open`);
+    }
+    return vscode.Uri.joinPath(workspaceFolder.uri, file);
+  }
+
+  const lessonsFolder = getLessonsFolder();
+  const uri = vscode.Uri.joinPath(lessonsFolder.uri, file);
+  return fs.existsSync(uri.fsPath) ? uri : (resolveFolderPrefixedFile(file) ?? uri);
+}
+
+/**
+ * Format the file of a note for the user, prefixed with its workspace folder when it is in another folder
+ */
+export function formatNoteFile({file, folder}: NoteFileLocation): string {
+  return folder !== undefined ? `${folder}/${file}` : file;
+}
+
+/**
+ * Resolve a path starting with a workspace folder name, as stored by earlier versions for files in the other
+ * folders of a multi-root workspace (e.g. "api/src/index.ts")
+ */
+function resolveFolderPrefixedFile(file: string): vscode.Uri | undefined {
+  const [folderName, ...rest] = file.split('/');
+  const workspaceFolder = vscode.workspace.workspaceFolders?.find(f => f.name === folderName);
+  if (!workspaceFolder || rest.length === 0) {
+    return undefined;
+  }
+
+  const uri = vscode.Uri.joinPath(workspaceFolder.uri, ...rest);
+  return fs.existsSync(uri.fsPath) ? uri : undefined;
+}
+
+function toPosixPath(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}